@@ -10,6 +10,10 @@ import {
 } from '@fortawesome/free-solid-svg-icons'
 
 import CityBuilder from './components/CityBuilder'
+import SaveCity from './components/SaveCity'
+import OpenCity from './components/OpenCity'
+import ExportPicture from './components/ExportPicture'
+import NewCity from './components/NewCity'
 
 // Placeholder components - will be created in separate files later
 const Home = () => (
@@ -25,8 +29,9 @@ const Home = () => (
           <FontAwesomeIcon icon={faFolderOpen} className="mr-2" />
           Open City
         </Link>
+        {/* New cities start by picking a map */}
         <Link
-          to="/build"
+          to="/new"
           className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 rounded-lg text-xl flex items-center"
         >
           <FontAwesomeIcon icon={faHome} className="mr-2" />
@@ -64,28 +69,28 @@ function App() {
             <nav className="flex space-x-2">
               {/* Using group for tooltip positioning */}
               <div className="group relative">
-                <Link to="/" className="icon-button">
+                <Link to="/" className="icon-button" aria-label="Home">
                   <FontAwesomeIcon icon={faHome} size="lg" />
                 </Link>
                 {showTooltips && <span className="tooltip">Home</span>}
               </div>
               
               <div className="group relative">
-                <Link to="/save" className="icon-button">
+                <Link to="/save" className="icon-button" aria-label="Save City">
                   <FontAwesomeIcon icon={faSave} size="lg" />
                 </Link>
                 {showTooltips && <span className="tooltip">Save City</span>}
               </div>
               
               <div className="group relative">
-                <Link to="/open" className="icon-button">
+                <Link to="/open" className="icon-button" aria-label="Open City">
                   <FontAwesomeIcon icon={faFolderOpen} size="lg" />
                 </Link>
                 {showTooltips && <span className="tooltip">Open City</span>}
               </div>
               
               <div className="group relative">
-                <Link to="/export" className="icon-button">
+                <Link to="/export" className="icon-button" aria-label="Export Picture">
                   <FontAwesomeIcon icon={faDownload} size="lg" />
                 </Link>
                 {showTooltips && <span className="tooltip">Export Picture</span>}
@@ -95,6 +100,8 @@ function App() {
                 <button 
                   className="icon-button"
                   onClick={() => setShowTooltips(!showTooltips)}
+                  aria-label="Help"
+                  aria-pressed={showTooltips}
                 >
                   <FontAwesomeIcon icon={faQuestionCircle} size="lg" />
                 </button>
@@ -108,10 +115,11 @@ function App() {
         <main className="flex-grow container mx-auto p-4">
           <Routes>
             <Route path="/" element={<Home />} />
+            <Route path="/new" element={<NewCity />} />
             {/* Additional routes will be added as we create components */}
-            <Route path="/save" element={<div>Save City (Coming Soon)</div>} />
-            <Route path="/open" element={<div>Open City (Coming Soon)</div>} />
-            <Route path="/export" element={<div>Export Picture (Coming Soon)</div>} />
+            <Route path="/save" element={<SaveCity />} />
+            <Route path="/open" element={<OpenCity />} />
+            <Route path="/export" element={<ExportPicture />} />
             <Route path="/build" element={<CityBuilder />} />
           </Routes>
         </main>
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCoins, faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons';
+
+import { ASSET_CATEGORIES, type Material } from '../types/asset';
+import { ASSET_CATEGORY_ICONS, ASSET_CATEGORY_LABELS, getAssetIcon } from '../utils/assetIcons';
+import type { Spending } from '../utils/budget';
+
+interface BudgetPanelProps {
+  spending: Spending;
+  // Null when the city has no spending limit
+  budget: number | null;
+  materials: Material[];
+}
+
+// Coins left in the city's budget, with a per-category breakdown of what was spent
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ spending, budget, materials }) => {
+  const [showBreakdown, setShowBreakdown] = useState<boolean>(false);
+
+  const remaining = budget === null ? null : budget - spending.total;
+  const usedFraction = budget ? Math.min(spending.total / budget, 1) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3">
+      <button
+        className="w-full flex items-center gap-2"
+        onClick={() => setShowBreakdown(!showBreakdown)}
+        aria-expanded={showBreakdown}
+        aria-label="Budget"
+      >
+        <FontAwesomeIcon icon={faCoins} className="text-amber-500" size="lg" />
+        <span className="font-bold text-lg">{remaining ?? '∞'}</span>
+        {budget !== null && <span className="text-sm text-gray-500">/ {budget}</span>}
+        <FontAwesomeIcon icon={showBreakdown ? faChevronUp : faChevronDown} className="ml-auto text-gray-400" size="sm" />
+      </button>
+
+      {/* How much of the budget is used */}
+      {budget !== null && (
+        <div className="h-2 bg-gray-100 rounded-full mt-2 overflow-hidden">
+          <div
+            className={`h-full ${usedFraction >= 0.9 ? 'bg-red-400' : 'bg-amber-400'}`}
+            style={{ width: `${usedFraction * 100}%` }}
+          />
+        </div>
+      )}
+
+      {/* Spending per category */}
+      {showBreakdown && (
+        <ul className="mt-3 space-y-2 text-sm">
+          {ASSET_CATEGORIES.map(category => {
+            const categorySpending = spending.byCategory[category];
+            return (
+              <li key={category} className="flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <FontAwesomeIcon icon={ASSET_CATEGORY_ICONS[category]} className="text-blue-600 w-4" />
+                  <span className="flex-1">
+                    {ASSET_CATEGORY_LABELS[category]} ({categorySpending.items})
+                  </span>
+                  <FontAwesomeIcon icon={faCoins} className="text-amber-500" size="xs" />
+                  <span className="font-medium">{categorySpending.coins}</span>
+                </div>
+
+                {Object.keys(categorySpending.materials).length > 0 && (
+                  <div className="flex flex-wrap gap-2 pl-6 text-xs text-gray-500">
+                    {Object.entries(categorySpending.materials).map(([id, amount]) => {
+                      const material = materials.find(m => m.id === id);
+                      return (
+                        <span key={id} className="flex items-center gap-1" title={material?.name}>
+                          <FontAwesomeIcon icon={getAssetIcon(material?.icon)} />
+                          {amount}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+          <li className="flex items-center gap-2 pt-2 border-t border-gray-200 font-bold">
+            <span className="flex-1">Spent</span>
+            <FontAwesomeIcon icon={faCoins} className="text-amber-500" size="xs" />
+            <span>{spending.total}</span>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faMagnifyingGlassPlus, faMagnifyingGlassMinus, faExpand } from '@fortawesome/free-solid-svg-icons';
+
+import { MAX_ZOOM, MIN_ZOOM, ZOOM_STEP, type Camera, type ViewRect } from '../utils/camera';
+
+interface CameraControlsProps {
+  camera: Camera;
+  world: { width: number; height: number };
+  // Image drawn under the minimap, usually the map background
+  background: string | null;
+  // Where items are, drawn as dots
+  items: { x: number; y: number }[];
+}
+
+// Width of the minimap in screen pixels
+const MINIMAP_WIDTH = 160;
+
+// Zoom buttons and a minimap with the part of the city on screen
+const CameraControls: React.FC<CameraControlsProps> = ({ camera, world, background, items }) => {
+  const [zoom, setZoom] = useState<number>(camera.getZoom());
+  const [view, setView] = useState<ViewRect>(camera.getViewRect());
+  const isDraggingRef = useRef<boolean>(false);
+
+  // Follow the camera wherever it is moved from
+  useEffect(() => {
+    const update = () => {
+      setZoom(camera.getZoom());
+      setView(camera.getViewRect());
+    };
+    update();
+    return camera.subscribe(update);
+  }, [camera]);
+
+  const minimapScale = MINIMAP_WIDTH / world.width;
+
+  // Centre the view on the part of the minimap under the pointer
+  const centerOnMinimap = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    camera.centerOn({
+      x: (e.clientX - rect.left) / minimapScale,
+      y: (e.clientY - rect.top) / minimapScale,
+    });
+  };
+
+  return (
+    <>
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <button
+          className="icon-button bg-white/90 disabled:opacity-50"
+          onClick={() => camera.zoomTo(zoom * ZOOM_STEP)}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          <FontAwesomeIcon icon={faMagnifyingGlassPlus} />
+        </button>
+        <button
+          className="icon-button bg-white/90 disabled:opacity-50"
+          onClick={() => camera.zoomTo(zoom / ZOOM_STEP)}
+          disabled={zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          <FontAwesomeIcon icon={faMagnifyingGlassMinus} />
+        </button>
+        <button
+          className="icon-button bg-white/90"
+          onClick={() => camera.fit()}
+          aria-label="Show whole city"
+        >
+          <FontAwesomeIcon icon={faExpand} />
+        </button>
+      </div>
+
+      {/* Minimap: drag the rectangle's area to move around */}
+      <div
+        className="absolute bottom-2 right-2 rounded-md shadow-md overflow-hidden border-2 border-white bg-sky-100 cursor-pointer touch-none"
+        style={{
+          width: MINIMAP_WIDTH,
+          height: world.height * minimapScale,
+          backgroundImage: background ? `url(${background})` : undefined,
+          backgroundSize: 'cover',
+        }}
+        onPointerDown={(e) => {
+          isDraggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          centerOnMinimap(e);
+        }}
+        onPointerMove={(e) => {
+          if (isDraggingRef.current) centerOnMinimap(e);
+        }}
+        onPointerUp={() => {
+          isDraggingRef.current = false;
+        }}
+        aria-label="Minimap"
+        role="img"
+      >
+        {items.map((item, i) => (
+          <span
+            key={i}
+            className="absolute w-1 h-1 rounded-full bg-blue-600"
+            style={{ left: item.x * minimapScale, top: item.y * minimapScale }}
+          />
+        ))}
+        <div
+          className="absolute border-2 border-red-500 pointer-events-none"
+          style={{
+            left: Math.max(view.x, 0) * minimapScale,
+            top: Math.max(view.y, 0) * minimapScale,
+            width: Math.min(view.width, world.width) * minimapScale,
+            height: Math.min(view.height, world.height) * minimapScale,
+          }}
+        />
+      </div>
+    </>
+  );
+};
+
+export default CameraControls;
@@ -1,53 +1,132 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { 
-  faHome, 
-  faStore, 
-  faHospital, 
-  faTree, 
-  faBench, 
-  faDog, 
-  faCat,
   faTrash,
   faLock,
   faLockOpen,
   faEye,
   faEyeSlash,
   faUndo,
-  faRedo
+  faRedo,
+  faBroom,
+  faSpinner,
+  faExclamationTriangle,
+  faArrowUp,
+  faArrowDown,
+  faCoins,
+  faBan,
+  faUpload,
+  faVectorSquare,
+  faTableCells,
+  faRoad,
+  faEraser,
+  faPaintbrush,
+  faFillDrip,
+  faPlay,
+  faPause,
+  faCopy,
+  faPaste,
+  faClone,
+  faObjectGroup,
+  faObjectUngroup,
+  faGripVertical,
+  faAngleUp,
+  faAngleDown,
+  faAnglesUp,
+  faAnglesDown,
+  type IconDefinition
 } from '@fortawesome/free-solid-svg-icons';
 
-import CityCanvas, { Layer, Point } from './CityCanvas';
+import CityCanvas, { type CityCanvasHandle } from './CityCanvas';
+import BudgetPanel from './BudgetPanel';
+import CityStatsStrip from './CityStatsStrip';
+import HouseHappinessCard from './HouseHappinessCard';
+import RadialMenu from './RadialMenu';
 import useCanvas from '../hooks/useCanvas';
+import useAssetManifest from '../hooks/useAssetManifest';
+import useUploads from '../hooks/useUploads';
+import useKeyboardShortcuts from '../hooks/useKeyboardShortcuts';
+import useCurrentCity, { persistCurrentCity } from '../hooks/useCurrentCity';
+import { getTopZIndex, useCityStore, type StackDirection } from '../store/cityStore';
+import type { Layer } from '../types/city';
+import { ASSET_CATEGORIES, type AssetCategory } from '../types/asset';
+import { UPLOAD_MIME_TYPES } from '../types/upload';
+import { findAsset, getAdjacentVersion, getBaseVersion } from '../utils/assetManifest';
+import { ASSET_CATEGORY_LABELS, getAssetIcon } from '../utils/assetIcons';
+import { calculateSpending, canAfford, costInCoins } from '../utils/budget';
+import { computeCityStats } from '../utils/cityStats';
+import { loadTexture } from '../utils/pixiScene';
+import { describeBlockedSocket, findSocket, positionOnPoint } from '../utils/mapSockets';
+import { describeOverlap, GRID_CELL_SIZE, snapToGrid } from '../utils/grid';
+import type { RoadTool } from '../utils/roads';
+import { BRUSH_RADII, TERRAIN_COLORS, TERRAIN_LABELS, TERRAIN_TYPES, type BrushSize, type TerrainTool } from '../utils/terrain';
+import { DEFAULT_MAP_TEMPLATE_ID, getMapTemplate } from '../utils/mapTemplates';
+import { toUploadAsset } from '../utils/uploadAssets';
 
-// Placeholder map points for testing
-const DEMO_MAP_POINTS: Point[] = [
-  { x: 300, y: 400, type: 'hospital', name: 'City Hospital' },
-  { x: 800, y: 300, type: 'school', name: 'Elementary School' },
-  { x: 1200, y: 500, type: 'bakery', name: 'Sweet Bakery' },
-  { x: 500, y: 700, type: 'open', name: 'Open Spot 1' },
-  { x: 1500, y: 800, type: 'open', name: 'Open Spot 2' },
-  { x: 1000, y: 900, type: 'open', name: 'Open Spot 3' },
+// Auto-save can be switched off with VITE_ENABLE_AUTO_SAVE=false
+const AUTO_SAVE_ENABLED = import.meta.env.VITE_ENABLE_AUTO_SAVE !== 'false';
+
+// Drag-and-drop data type for items dragged out of the storage bar
+const STORAGE_ITEM_DRAG_TYPE = 'application/x-maetopia-storage-item';
+
+// Drag-and-drop data type for rows dragged within the item list
+const LAYER_ROW_DRAG_TYPE = 'application/x-maetopia-layer-row';
+
+// Buttons that move an item through the stack, in the order they're shown
+const STACK_BUTTONS: { direction: StackDirection; icon: IconDefinition; label: string }[] = [
+  { direction: 'front', icon: faAnglesUp, label: 'Bring to front' },
+  { direction: 'forward', icon: faAngleUp, label: 'Bring forward' },
+  { direction: 'backward', icon: faAngleDown, label: 'Send backward' },
+  { direction: 'back', icon: faAnglesDown, label: 'Send to back' },
 ];
 
-// Asset definitions for the toolbar
-const ASSETS = [
-  { type: 'house', icon: faHome, name: 'House', texturePath: '/assets/placeholders/house_v1.svg', scale: 1, version: 1 },
-  { type: 'shop', icon: faStore, name: 'Shop', texturePath: '/assets/placeholders/shop_v1.svg', scale: 1, version: 1 },
-  { type: 'hospital', icon: faHospital, name: 'Hospital', texturePath: '/assets/placeholders/hospital_v1.svg', scale: 1.2, version: 1 },
-  { type: 'tree', icon: faTree, name: 'Tree', texturePath: '/assets/placeholders/tree_v1.svg', scale: 0.8, version: 1 },
-  { type: 'bench', icon: faBench, name: 'Bench', texturePath: '/assets/placeholders/bench_v1.svg', scale: 0.7, version: 1 },
-  { type: 'dog', icon: faDog, name: 'Dog', texturePath: '/assets/placeholders/dog_v1.svg', scale: 0.6, version: 1 },
-  { type: 'cat', icon: faCat, name: 'Cat', texturePath: '/assets/placeholders/cat_v1.svg', scale: 0.5, version: 1 },
+// How long a "can't go here" message stays up
+const PLACEMENT_HINT_DURATION = 2500;
+
+// How far (in world pixels) an arrow key moves the selected item, and with Shift held.
+// In grid mode it moves a cell at a time, or four with Shift.
+const NUDGE_STEP = 5;
+const BIG_NUDGE_STEP = 50;
+const BIG_GRID_NUDGE_CELLS = 4;
+
+// Ground painting starts with a medium grass brush
+const DEFAULT_TERRAIN_TOOL: TerrainTool = { mode: 'brush', terrain: 'grass', size: 'medium' };
+
+// Brush sizes offered, smallest first
+const BRUSH_SIZES: { size: BrushSize; label: string }[] = [
+  { size: 'small', label: 'Small brush' },
+  { size: 'medium', label: 'Medium brush' },
+  { size: 'large', label: 'Large brush' },
 ];
 
+const TERRAIN_TOOL_ICONS: Record<TerrainTool['mode'], IconDefinition> = {
+  brush: faPaintbrush,
+  fill: faFillDrip,
+  erase: faEraser,
+};
+
+const TERRAIN_TOOL_HINTS: Record<TerrainTool['mode'], string> = {
+  brush: 'Drag across the map to paint the ground',
+  fill: 'Tap the map to fill a patch of ground',
+  erase: 'Drag over painted ground to erase it',
+};
+
+// A reason something couldn't be placed: a map point that doesn't take it or a
+// grid spot that's taken, or not enough coins
+type PlacementHint = { kind: 'blocked'; message: string } | { kind: 'budget' };
+
 // Main CityBuilder component
 const CityBuilder: React.FC = () => {
+  // Make sure the working copy of the city is in the store
+  const isLoaded = useCurrentCity();
+
   // Use our custom hook for canvas state management
   const { 
     layers,
     selectedLayer,
     selectedLayerId,
+    selectedLayerIds,
+    clipboard,
     mapPoints,
     canUndo,
     canRedo,
@@ -55,72 +134,296 @@ const CityBuilder: React.FC = () => {
     removeLayer,
     updateLayer,
     selectLayer,
+    toggleLayerSelection,
+    selectLayers,
+    removeLayers,
+    moveLayers,
+    groupLayers,
+    ungroupLayers,
+    copyLayers,
+    pasteLayers,
+    duplicateLayers,
+    reorderLayers,
+    restackLayer,
+    clearLayers,
     undo,
     redo,
-    setPoints
+    startBatch,
+    endBatch
   } = useCanvas({
-    autoSave: true,
+    onChange: AUTO_SAVE_ENABLED ? persistCurrentCity : undefined,
+    autoSave: AUTO_SAVE_ENABLED,
     autoSaveDebounce: 500,
   });
 
-  // State for the currently selected asset from toolbar
+  // The asset catalogue plus the player's own drawings, and the toolbar tab and asset picked from it
+  const { assets: catalogueAssets, materials, isLoading: isLoadingAssets, error: assetError } = useAssetManifest();
+  const { uploads, previews, isUploading, error: uploadError, addUpload } = useUploads();
+  const assets = useMemo(
+    () => [...catalogueAssets, ...uploads.map(toUploadAsset)],
+    [catalogueAssets, uploads]
+  );
+  const [activeCategory, setActiveCategory] = useState<AssetCategory>('buildings');
   const [selectedAssetType, setSelectedAssetType] = useState<string | null>(null);
+  const selectedAsset = findAsset(assets, selectedAssetType);
   
-  // State for items in the storage bar
-  const [storageItems, setStorageItems] = useState<Array<{ id: string, type: string, version: number }>>([]);
+  // Items in the storage bar
+  const storageItems = useCityStore(state => state.storageItems);
+  const storeLayer = useCityStore(state => state.storeLayer);
+  const placeStorageItem = useCityStore(state => state.placeStorageItem);
+  const mapTemplateId = useCityStore(state => state.mapTemplateId);
+  const setMapTemplate = useCityStore(state => state.setMapTemplate);
+  const budget = useCityStore(state => state.budget);
+  const gridEnabled = useCityStore(state => state.gridEnabled);
+  const setGridEnabled = useCityStore(state => state.setGridEnabled);
+  const setStoreAssets = useCityStore(state => state.setAssets);
 
-  // Load map points when component mounts
+  // Grid mode looks up footprints in the same assets as the toolbar
   useEffect(() => {
-    setPoints(DEMO_MAP_POINTS);
-  }, [setPoints]);
+    setStoreAssets(assets);
+  }, [assets, setStoreAssets]);
+
+  // Running total of what the city's items cost, stored ones included
+  const spending = useMemo(
+    () => calculateSpending([...layers, ...storageItems], assets, materials),
+    [layers, storageItems, assets, materials]
+  );
+
+  // Population, jobs, health and happiness from what's placed where
+  const stats = useMemo(() => computeCityStats({ layers }), [layers]);
+
+  const storageBarRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<CityCanvasHandle>(null);
+  const [isStorageHover, setIsStorageHover] = useState<boolean>(false);
+
+  // Friendly message shown when something can't be placed where it was dropped
+  const [placementHint, setPlacementHint] = useState<PlacementHint | null>(null);
+
+  // Last message for screen readers, read out by the live region
+  const [announcement, setAnnouncement] = useState<string>('');
+
+  // Row hovered in the item list, shown on the map too, and the row being dragged to a new spot
+  const [hoveredLayerId, setHoveredLayerId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  // Item under the pointer on the map, and where, to explain a house's happiness
+  const [mapHover, setMapHover] = useState<{ layerId: string; position: { x: number; y: number } } | null>(null);
+  const hoveredHouse = mapHover ? stats.houses[mapHover.layerId] : undefined;
+
+  // Dragging on the map draws a selection box instead of panning
+  const [selectionMode, setSelectionMode] = useState<boolean>(false);
+
+  // Dragging on the map lays or erases road instead
+  const [roadTool, setRoadTool] = useState<RoadTool | null>(null);
+
+  // Pressing the map paints terrain instead; the last brush is kept for next time
+  const [terrainTool, setTerrainTool] = useState<TerrainTool | null>(null);
+  const [lastTerrainTool, setLastTerrainTool] = useState<TerrainTool>(DEFAULT_TERRAIN_TOOL);
+
+  // Animals wander about the map, unless the player asked for less motion
+  const [animalsPlaying, setAnimalsPlaying] = useState<boolean>(
+    () => !window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  );
+
+  // Switch brush, size or mode, remembering the choice for next time
+  const changeTerrainTool = (change: Partial<TerrainTool>) => {
+    if (!terrainTool) return;
+    const next = { ...terrainTool, ...change };
+    setTerrainTool(next);
+    setLastTerrainTool(next);
+  };
+
+  // Item whose press-and-hold menu is open, and where on the page
+  const [itemMenu, setItemMenu] = useState<{ layerId: string; position: { x: number; y: number } } | null>(null);
+
+  useEffect(() => {
+    if (!placementHint) return;
+
+    const timer = setTimeout(() => setPlacementHint(null), PLACEMENT_HINT_DURATION);
+    return () => clearTimeout(timer);
+  }, [placementHint]);
+
+  // A blank city that skipped the map picker starts on the default map
+  useEffect(() => {
+    if (isLoaded && !mapTemplateId && mapPoints.length === 0 && layers.length === 0) {
+      const template = getMapTemplate(DEFAULT_MAP_TEMPLATE_ID);
+      if (template) setMapTemplate(template);
+    }
+  }, [isLoaded, mapTemplateId, mapPoints.length, layers.length, setMapTemplate]);
+
+  // Always keep the working copy when leaving the builder, e.g. to visit /save
+  useEffect(() => () => persistCurrentCity(), []);
+
+  // How an item is read out, e.g. "House version 2"
+  const describeLayer = useCallback((layer: { type: string; version: number }) => {
+    const name = findAsset(assets, layer.type)?.name ?? 'Item';
+    return layer.version > 1 ? `${name} version ${layer.version}` : name;
+  }, [assets]);
+
+  // Every selected item, in drawing order
+  const selectedLayers = layers.filter(l => selectedLayerIds.includes(l.id));
+
+  // The item list runs from the front of the map to the back
+  const stackedLayers = useMemo(() => [...layers].sort((a, b) => b.zIndex - a.zIndex), [layers]);
+  const isGroupSelected = selectedLayers.some(l => l.groupId);
+
+  // Announce each new selection, however it was made
+  const selectionKey = selectedLayerIds.join(',');
+  const announcedSelectionRef = useRef<string>('');
+  useEffect(() => {
+    if (selectionKey === announcedSelectionRef.current) return;
+    announcedSelectionRef.current = selectionKey;
+    if (selectedLayerIds.length > 1) {
+      setAnnouncement(`${selectedLayerIds.length} items selected`);
+      return;
+    }
+    if (!selectedLayer) return;
+
+    const index = layers.findIndex(l => l.id === selectedLayer.id);
+    setAnnouncement(`${describeLayer(selectedLayer)} selected, item ${index + 1} of ${layers.length}`);
+  }, [selectionKey, selectedLayerIds.length, selectedLayer, layers, describeLayer]);
 
   // Handle asset selection from toolbar
   const handleAssetSelect = (assetType: string) => {
     setSelectedAssetType(assetType);
   };
 
-  // Handle canvas click to place selected asset
-  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!selectedAssetType) return;
+  // Add a drawing from the file picker and get it ready to place
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = '';
+    if (!file) return;
 
-    // Get click position relative to canvas
-    const canvasRect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - canvasRect.left;
-    const y = e.clientY - canvasRect.top;
-    
-    // Scale position to actual canvas dimensions (1920x1080)
-    const scaleX = 1920 / canvasRect.width;
-    const scaleY = 1080 / canvasRect.height;
-    
-    const canvasX = x * scaleX;
-    const canvasY = y * scaleY;
-    
-    // Find the selected asset
-    const asset = ASSETS.find(a => a.type === selectedAssetType);
+    const upload = await addUpload(file);
+    if (upload) setSelectedAssetType(upload.id);
+  };
+
+  // Convert a pointer position over the canvas area to world coordinates,
+  // through the canvas camera; null when it isn't over the map
+  const toCanvasPosition = (e: React.DragEvent<HTMLDivElement>) =>
+    canvasRef.current?.clientToWorld({ x: e.clientX, y: e.clientY }) ?? null;
+
+  // Work out where an item placed at a position ends up: snapped onto a nearby
+  // map point, left where it is (on the grid in grid mode), or refused (null)
+  // when the spot doesn't take it. The item's anchor goes where it was placed
+  const resolvePlacement = async (
+    item: { type: string; texturePath: string; scale: number },
+    target: { x: number; y: number }
+  ) => {
+    const texture = await loadTexture(item.texturePath).catch(() => null);
+    const size = {
+      width: (texture?.width ?? 0) * item.scale,
+      height: (texture?.height ?? 0) * item.scale,
+    };
+    const anchor = findAsset(assets, item.type)?.anchor;
+
+    const { layers, mapPoints, gridEnabled, findOverlap } = useCityStore.getState();
+    const socket = findSocket(target, item.type, mapPoints, layers);
+    if (socket && !socket.allowed) {
+      setPlacementHint({ kind: 'blocked', message: describeBlockedSocket(socket) });
+      return null;
+    }
+
+    const free = positionOnPoint(target, size, anchor);
+    const placement = socket
+      ? { position: positionOnPoint(socket.point, size, anchor), pointId: socket.point.id }
+      : { position: gridEnabled ? snapToGrid(free) : free };
+
+    // In grid mode, solid items can't go on top of each other
+    const overlap = findOverlap([{ id: '', type: item.type, position: placement.position, scale: item.scale }]);
+    if (overlap) {
+      setPlacementHint({ kind: 'blocked', message: describeOverlap(findAsset(assets, overlap.type)) });
+      return null;
+    }
+    return placement;
+  };
+
+  // Place the selected asset where the map was tapped or clicked
+  const handleMapTap = async (clickPosition: { x: number; y: number }) => {
+    const asset = selectedAsset;
     if (!asset) return;
     
+    // New items start as the asset's plainest version
+    const { version, texturePath, cost } = getBaseVersion(asset);
+    if (!canAfford(costInCoins(cost, materials), spending.total, budget)) {
+      setPlacementHint({ kind: 'budget' });
+      return;
+    }
+
+    const placement = await resolvePlacement(
+      { type: asset.id, texturePath, scale: asset.defaultScale },
+      clickPosition
+    );
+    if (!placement) return;
+    
     // Add new layer
+    setAnnouncement(`${asset.name} placed`);
     addLayer({
-      type: asset.type,
-      position: { x: canvasX, y: canvasY },
-      scale: asset.scale,
+      type: asset.id,
+      ...placement,
+      scale: asset.defaultScale,
       opacity: 1,
-      zIndex: layers.length, // Place on top
+      zIndex: getTopZIndex(useCityStore.getState().layers), // Place on top
       locked: false,
       visible: true,
-      version: asset.version,
-      texturePath: asset.texturePath,
+      version,
+      texturePath,
     });
   };
 
-  // Handle adding item to storage bar
-  const addToStorage = (type: string, version: number) => {
-    setStorageItems(prev => [...prev, { id: `storage_${Date.now()}`, type, version }]);
+  // Check whether a pointer position is over the storage bar
+  const isOverStorageBar = (client: { x: number; y: number }) => {
+    const rect = storageBarRef.current?.getBoundingClientRect();
+    return !!rect && client.x >= rect.left && client.x <= rect.right && client.y >= rect.top && client.y <= rect.bottom;
   };
 
-  // Handle removing item from storage bar
-  const removeFromStorage = (id: string) => {
-    setStorageItems(prev => prev.filter(item => item.id !== id));
+  // Highlight the storage bar while a placed item is dragged over it
+  const handleLayerDragMove = useCallback((_layerId: string, client: { x: number; y: number }) => {
+    const isOver = isOverStorageBar(client);
+    setIsStorageHover(isOver);
+    // A dragged house isn't hovered
+    setMapHover(null);
+    return isOver;
+  }, []);
+
+  // Dropping a placed item on the storage bar stores it, along with the
+  // rest of the selection when it was dragged as part of one
+  const handleLayerDrop = useCallback((layerId: string, client: { x: number; y: number }) => {
+    setIsStorageHover(false);
+    if (!isOverStorageBar(client)) return false;
+
+    const { layers, selectedLayerIds } = useCityStore.getState();
+    const stored = selectedLayerIds.includes(layerId)
+      ? layers.filter(l => selectedLayerIds.includes(l.id) && !l.locked).map(l => l.id)
+      : [layerId];
+    startBatch();
+    stored.forEach(id => storeLayer(id));
+    endBatch();
+    return true;
+  }, [storeLayer, startBatch, endBatch]);
+
+  // Let stored items be dropped on the canvas
+  const handleCanvasDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes(STORAGE_ITEM_DRAG_TYPE)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  // Place a stored item where it was dropped
+  const handleCanvasDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    const itemId = e.dataTransfer.getData(STORAGE_ITEM_DRAG_TYPE);
+    const item = storageItems.find(i => i.id === itemId);
+    const dropPosition = toCanvasPosition(e);
+    if (!item || !dropPosition) return;
+
+    e.preventDefault();
+    const placement = await resolvePlacement(item, dropPosition);
+    if (!placement) return;
+
+    const layerId = placeStorageItem(itemId, placement.position, placement.pointId);
+    if (layerId) selectLayer(layerId);
   };
 
   // Handle layer visibility toggle
@@ -131,6 +434,29 @@ const CityBuilder: React.FC = () => {
     }
   };
 
+  // Swap a layer to the next version up (1) or down (-1) its asset's upgrade path
+  const changeLayerVersion = (id: string, step: 1 | -1) => {
+    const layer = layers.find(l => l.id === id);
+    const asset = findAsset(assets, layer?.type);
+    if (!layer || !asset) return;
+
+    const next = getAdjacentVersion(asset, layer.version, step);
+    if (!next) return;
+
+    // Upgrades cost the next version's price; downgrading gives the current one back
+    if (step > 0 && !canAfford(costInCoins(next.cost, materials), spending.total, budget)) {
+      setPlacementHint({ kind: 'budget' });
+      return;
+    }
+    updateLayer(id, { version: next.version, texturePath: next.texturePath });
+  };
+
+  // Upgrade path of the selected item, if its asset has more than one version
+  const selectedLayerAsset = findAsset(assets, selectedLayer?.type);
+  const upgradePath = selectedLayerAsset && selectedLayerAsset.versions.length > 1
+    ? selectedLayerAsset.versions
+    : null;
+
   // Handle layer lock toggle
   const toggleLayerLock = (id: string) => {
     const layer = layers.find(l => l.id === id);
@@ -139,21 +465,284 @@ const CityBuilder: React.FC = () => {
     }
   };
 
+  // What a set of items would cost to build again
+  const costOfLayers = (list: Layer[]) => calculateSpending(list, assets, materials).total;
+
+  // Locked items stay put, as they do when dragged or nudged
+  // These return whether there was anything to act on, for the keyboard shortcuts
+  const deleteSelection = () => {
+    if (selectedLayers.length === 0) return false;
+    const removable = selectedLayers.filter(l => !l.locked);
+    if (removable.length === 0) {
+      setAnnouncement(selectedLayers.length > 1 ? 'The selected items are locked' : `${describeLayer(selectedLayers[0])} is locked`);
+      return true;
+    }
+    removeLayers(removable.map(l => l.id));
+    setAnnouncement(removable.length > 1 ? `${removable.length} items removed` : `${describeLayer(removable[0])} removed`);
+    return true;
+  };
+
+  const copySelection = () => {
+    if (selectedLayers.length === 0) return false;
+    copyLayers(selectedLayerIds);
+    setAnnouncement(`${selectedLayers.length} copied`);
+    return true;
+  };
+
+  // In grid mode copies can land on a taken spot, and then none are made
+  const showCopiesBlocked = () => {
+    const message = describeOverlap(null);
+    setPlacementHint({ kind: 'blocked', message });
+    setAnnouncement(message);
+  };
+
+  // Copies cost the same as the originals
+  const pasteClipboard = () => {
+    if (clipboard.length === 0) return false;
+    if (!canAfford(costOfLayers(clipboard), spending.total, budget)) {
+      setPlacementHint({ kind: 'budget' });
+      return true;
+    }
+    const pasted = pasteLayers();
+    if (pasted.length === 0) {
+      showCopiesBlocked();
+      return true;
+    }
+    setAnnouncement(`${pasted.length} pasted`);
+    return true;
+  };
+
+  const duplicateSelection = () => {
+    if (selectedLayers.length === 0) return false;
+    if (!canAfford(costOfLayers(selectedLayers), spending.total, budget)) {
+      setPlacementHint({ kind: 'budget' });
+      return true;
+    }
+    const copies = duplicateLayers(selectedLayerIds);
+    if (copies.length === 0) {
+      showCopiesBlocked();
+      return true;
+    }
+    setAnnouncement(`${copies.length} duplicated`);
+    return true;
+  };
+
+  const groupSelection = () => {
+    if (!groupLayers(selectedLayerIds)) return false;
+    setAnnouncement(`${selectedLayerIds.length} items grouped`);
+    return true;
+  };
+
+  const ungroupSelection = () => {
+    if (!isGroupSelected) return false;
+    ungroupLayers(selectedLayerIds);
+    setAnnouncement('Ungrouped');
+    return true;
+  };
+
+  // Drop a dragged row onto another one, taking its place in the stack
+  const handleRowDrop = (e: React.DragEvent<HTMLDivElement>, targetId: string) => {
+    setDropTargetId(null);
+    const draggedId = e.dataTransfer.getData(LAYER_ROW_DRAG_TYPE);
+    if (!draggedId || draggedId === targetId) return;
+
+    e.preventDefault();
+    const order = stackedLayers.map(l => l.id).filter(id => id !== draggedId);
+    order.splice(stackedLayers.findIndex(l => l.id === targetId), 0, draggedId);
+    // reorderLayers wants the back of the map first
+    reorderLayers(order.reverse());
+  };
+
+  const handleRestack = (layer: Layer, direction: StackDirection) => {
+    restackLayer(layer.id, direction);
+    const label = STACK_BUTTONS.find(button => button.direction === direction)?.label;
+    setAnnouncement(`${describeLayer(layer)}: ${label?.toLowerCase()}`);
+  };
+
+  // Pressing and holding an item opens its menu
+  const handleLayerLongPress = useCallback((layerId: string, client: { x: number; y: number }) => {
+    setItemMenu({ layerId, position: client });
+  }, []);
+
+  const handleLayerHover = useCallback((layerId: string | null, client: { x: number; y: number }) => {
+    setMapHover(layerId ? { layerId, position: client } : null);
+  }, []);
+
+  const menuLayer = itemMenu ? layers.find(l => l.id === itemMenu.layerId) : undefined;
+  const menuAsset = findAsset(assets, menuLayer?.type);
+
+  // Assets shown in the toolbar's current tab
+  const visibleAssets = assets.filter(asset => asset.category === activeCategory);
+
+  useKeyboardShortcuts({
+    undo: () => {
+      if (!canUndo) return false;
+      undo();
+      setAnnouncement('Undone');
+      return true;
+    },
+    redo: () => {
+      if (!canRedo) return false;
+      redo();
+      setAnnouncement('Redone');
+      return true;
+    },
+    deleteSelected: deleteSelection,
+    copy: copySelection,
+    paste: pasteClipboard,
+    duplicate: duplicateSelection,
+    group: groupSelection,
+    ungroup: ungroupSelection,
+    selectAll: () => {
+      if (layers.length === 0) return false;
+      selectLayers(layers.map(l => l.id));
+      return true;
+    },
+    pickAsset: (index) => {
+      const asset = visibleAssets[index];
+      if (!asset) return;
+      setSelectedAssetType(asset.id);
+      setAnnouncement(`${asset.name} picked. Press Enter on the map to place it`);
+    },
+  });
+
+  // Keys that only apply while the map has focus: arrows move the selected items,
+  // Tab goes through the items, Enter places the picked asset in the middle of
+  // the view and Escape lets go of the selection
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Tab') {
+      const index = layers.findIndex(l => l.id === selectedLayerId);
+      const next = index < 0
+        ? (e.shiftKey ? layers.length - 1 : 0)
+        : index + (e.shiftKey ? -1 : 1);
+
+      // Past the last item, Tab moves on out of the map as usual
+      if (next < 0 || next >= layers.length) {
+        selectLayer(null);
+        return;
+      }
+      e.preventDefault();
+      selectLayer(layers[next].id);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      selectLayer(null);
+      setRoadTool(null);
+      setTerrainTool(null);
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const center = canvasRef.current?.getViewCenter();
+      if (center) handleMapTap(center);
+      return;
+    }
+
+    const direction = ({
+      ArrowLeft: { x: -1, y: 0 },
+      ArrowRight: { x: 1, y: 0 },
+      ArrowUp: { x: 0, y: -1 },
+      ArrowDown: { x: 0, y: 1 },
+    } as Record<string, { x: number; y: number }>)[e.key];
+    if (!direction || !selectedLayer) return;
+
+    e.preventDefault();
+    const movable = selectedLayers.filter(l => !l.locked);
+    if (movable.length === 0) {
+      setAnnouncement(`${describeLayer(selectedLayer)} is locked`);
+      return;
+    }
+    const step = gridEnabled
+      ? GRID_CELL_SIZE * (e.shiftKey ? BIG_GRID_NUDGE_CELLS : 1)
+      : (e.shiftKey ? BIG_NUDGE_STEP : NUDGE_STEP);
+    const moved = movable.map(l => ({
+      ...l,
+      position: { x: l.position.x + direction.x * step, y: l.position.y + direction.y * step },
+    }));
+
+    const overlap = useCityStore.getState().findOverlap(moved);
+    if (overlap) {
+      setAnnouncement(describeOverlap(findAsset(assets, overlap.type)));
+      return;
+    }
+    moveLayers(moved.map(({ id, position }) => ({ id, position })));
+  };
+
   return (
     <div className="city-builder flex flex-col h-full">
       {/* Top Toolbar */}
       <div className="toolbar bg-white shadow-md p-3 mb-4 rounded-lg flex flex-wrap gap-2">
-        {ASSETS.map(asset => (
-          <div key={asset.type} className="group relative">
-            <button
-              className={`icon-button ${selectedAssetType === asset.type ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
-              onClick={() => handleAssetSelect(asset.type)}
-            >
-              <FontAwesomeIcon icon={asset.icon} size="lg" />
-            </button>
-            <span className="tooltip">{asset.name}</span>
+        {/* Asset catalogue, one tab per category */}
+        <div className="flex-1 min-w-0 flex flex-col gap-2">
+          <div className="flex gap-1" role="tablist">
+            {ASSET_CATEGORIES.map(category => (
+              <button
+                key={category}
+                role="tab"
+                aria-selected={activeCategory === category}
+                className={`px-3 py-1 rounded-full text-sm ${activeCategory === category ? 'bg-blue-500 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                onClick={() => setActiveCategory(category)}
+              >
+                {ASSET_CATEGORY_LABELS[category]}
+              </button>
+            ))}
           </div>
-        ))}
+
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {isLoadingAssets && <FontAwesomeIcon icon={faSpinner} spin className="text-blue-600 m-2" />}
+
+            {assetError && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <FontAwesomeIcon icon={faExclamationTriangle} />
+                <span>Couldn't load the items: {assetError}</span>
+              </div>
+            )}
+
+            {/* Upload a new drawing */}
+            {activeCategory === 'drawings' && (
+              <div className="group relative shrink-0">
+                <label className={`icon-button cursor-pointer ${isUploading ? 'opacity-50 cursor-wait' : ''}`}>
+                  <FontAwesomeIcon icon={isUploading ? faSpinner : faUpload} spin={isUploading} size="lg" />
+                  <input
+                    type="file"
+                    accept={UPLOAD_MIME_TYPES.join(',')}
+                    className="sr-only"
+                    onChange={handleUpload}
+                    disabled={isUploading}
+                    aria-label="Upload a drawing"
+                  />
+                </label>
+                <span className="tooltip" aria-hidden="true">Upload a drawing</span>
+              </div>
+            )}
+
+            {activeCategory === 'drawings' && uploadError && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <FontAwesomeIcon icon={faExclamationTriangle} />
+                <span>{uploadError}</span>
+              </div>
+            )}
+
+            {visibleAssets.map((asset, i) => (
+              <div key={asset.id} className="group relative shrink-0">
+                <button
+                  className={`icon-button ${selectedAssetType === asset.id ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+                  onClick={() => handleAssetSelect(asset.id)}
+                  aria-label={asset.name}
+                  aria-pressed={selectedAssetType === asset.id}
+                  aria-keyshortcuts={i < 9 ? String(i + 1) : undefined}
+                >
+                  {previews[asset.id]
+                    ? <img src={previews[asset.id]} alt="" className="w-6 h-6 object-contain" />
+                    : <FontAwesomeIcon icon={getAssetIcon(asset.icon)} size="lg" />}
+                </button>
+                <span className="tooltip" aria-hidden="true">{asset.name}{i < 9 && ` (${i + 1})`}</span>
+              </div>
+            ))}
+          </div>
+        </div>
         
         <div className="border-l border-gray-300 mx-2" />
         
@@ -163,10 +752,12 @@ const CityBuilder: React.FC = () => {
             className={`icon-button ${!canUndo ? 'opacity-50 cursor-not-allowed' : ''}`}
             onClick={undo}
             disabled={!canUndo}
+            aria-label="Undo"
+            aria-keyshortcuts="Control+Z"
           >
             <FontAwesomeIcon icon={faUndo} size="lg" />
           </button>
-          <span className="tooltip">Undo</span>
+          <span className="tooltip" aria-hidden="true">Undo</span>
         </div>
         
         <div className="group relative">
@@ -174,115 +765,568 @@ const CityBuilder: React.FC = () => {
             className={`icon-button ${!canRedo ? 'opacity-50 cursor-not-allowed' : ''}`}
             onClick={redo}
             disabled={!canRedo}
+            aria-label="Redo"
+            aria-keyshortcuts="Control+Y"
           >
             <FontAwesomeIcon icon={faRedo} size="lg" />
           </button>
-          <span className="tooltip">Redo</span>
+          <span className="tooltip" aria-hidden="true">Redo</span>
+        </div>
+
+        {/* Road tools; picking one again puts it away */}
+        <div className="group relative">
+          <button
+            className={`icon-button ${roadTool === 'draw' ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+            onClick={() => {
+              selectLayer(null);
+              setTerrainTool(null);
+              setRoadTool(tool => (tool === 'draw' ? null : 'draw'));
+            }}
+            aria-label="Build roads"
+            aria-pressed={roadTool === 'draw'}
+          >
+            <FontAwesomeIcon icon={faRoad} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Build Roads</span>
+        </div>
+
+        <div className="group relative">
+          <button
+            className={`icon-button ${roadTool === 'erase' ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+            onClick={() => {
+              selectLayer(null);
+              setTerrainTool(null);
+              setRoadTool(tool => (tool === 'erase' ? null : 'erase'));
+            }}
+            aria-label="Erase roads"
+            aria-pressed={roadTool === 'erase'}
+          >
+            <FontAwesomeIcon icon={faEraser} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Erase Roads</span>
+        </div>
+
+        {/* Terrain painting, with its brushes in a panel over the map */}
+        <div className="group relative">
+          <button
+            className={`icon-button ${terrainTool ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+            onClick={() => {
+              selectLayer(null);
+              setRoadTool(null);
+              setTerrainTool(tool => (tool ? null : lastTerrainTool));
+            }}
+            aria-label="Paint ground"
+            aria-pressed={!!terrainTool}
+          >
+            <FontAwesomeIcon icon={faPaintbrush} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Paint Ground</span>
+        </div>
+
+        {/* Grid mode */}
+        <div className="group relative">
+          <button
+            className={`icon-button ${gridEnabled ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+            onClick={() => setGridEnabled(!gridEnabled)}
+            aria-label="Grid"
+            aria-pressed={gridEnabled}
+          >
+            <FontAwesomeIcon icon={faTableCells} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Grid</span>
+        </div>
+
+        {/* Animals wandering about */}
+        <div className="group relative">
+          <button
+            className="icon-button"
+            onClick={() => setAnimalsPlaying(playing => !playing)}
+            aria-label={animalsPlaying ? 'Pause animals' : 'Play animals'}
+          >
+            <FontAwesomeIcon icon={animalsPlaying ? faPause : faPlay} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">{animalsPlaying ? 'Pause Animals' : 'Play Animals'}</span>
+        </div>
+
+        {/* Box select */}
+        <div className="group relative">
+          <button
+            className={`icon-button ${selectionMode ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+            onClick={() => setSelectionMode(mode => !mode)}
+            aria-label="Box select"
+            aria-pressed={selectionMode}
+          >
+            <FontAwesomeIcon icon={faVectorSquare} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Box select (or Shift+drag)</span>
+        </div>
+
+        {/* Clear All (undoable) */}
+        <div className="group relative">
+          <button
+            className={`icon-button hover:text-red-600 ${layers.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+            onClick={clearLayers}
+            disabled={layers.length === 0}
+            aria-label="Clear all"
+          >
+            <FontAwesomeIcon icon={faBroom} size="lg" />
+          </button>
+          <span className="tooltip" aria-hidden="true">Clear All</span>
         </div>
       </div>
       
+      <CityStatsStrip stats={stats} />
+
       {/* Main Content Area with Canvas and Sidebar */}
       <div className="flex flex-1 gap-4 mb-4">
         {/* Canvas Area */}
         <div 
-          className="flex-1 relative"
-          onClick={handleCanvasClick}
+          className="flex-1 relative rounded-lg focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-400"
+          onDragOver={handleCanvasDragOver}
+          onDrop={handleCanvasDrop}
+          onKeyDown={handleCanvasKeyDown}
+          tabIndex={0}
+          role="application"
+          aria-label="City map"
+          aria-describedby="city-map-help"
         >
+          <p id="city-map-help" className="sr-only">
+            Tab goes through the items, arrow keys move the selected ones (hold Shift for big steps),
+            Delete removes them, number keys pick an item from the toolbar and Enter places it.
+            Control+A selects everything, Control+C, V and D copy, paste and duplicate,
+            and Control+G groups the selection.
+          </p>
+          <div className="sr-only" aria-live="polite" role="status">{announcement}</div>
+
           <CityCanvas
-            initialLayers={layers}
-            mapPoints={mapPoints}
-            onLayerSelect={selectLayer}
-            onLayerUpdate={() => {/* Will be handled by useCanvas */}}
+            ref={canvasRef}
+            onLayerDragMove={handleLayerDragMove}
+            onLayerDrop={handleLayerDrop}
+            onMapTap={handleMapTap}
+            onLayerLongPress={handleLayerLongPress}
+            onLayerHover={handleLayerHover}
+            selectionMode={selectionMode}
+            highlightedLayerId={hoveredLayerId}
+            roadTool={roadTool}
+            terrainTool={terrainTool}
+            animalsPlaying={animalsPlaying}
           />
+
+          {/* Why the last item couldn't be placed */}
+          {placementHint?.kind === 'blocked' && (
+            <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 bg-amber-100/90 text-amber-800 py-2 px-4 rounded-full shadow-md">
+              {placementHint.message}
+            </div>
+          )}
+
+          {/* Not enough coins: icons only, so it works before reading does */}
+          {placementHint?.kind === 'budget' && (
+            <div
+              className="absolute bottom-8 left-1/2 transform -translate-x-1/2 bg-red-100/90 text-red-600 py-2 px-4 rounded-full shadow-md"
+              role="alert"
+              aria-label="Not enough coins"
+            >
+              <span className="fa-layers fa-fw fa-2x">
+                <FontAwesomeIcon icon={faCoins} className="text-amber-500" />
+                <FontAwesomeIcon icon={faBan} />
+              </span>
+            </div>
+          )}
           
           {/* Canvas Instructions */}
-          {selectedAssetType && (
+          {roadTool && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/80 backdrop-blur-sm py-2 px-4 rounded-full shadow-md">
+              <div className="flex items-center gap-2">
+                <FontAwesomeIcon icon={roadTool === 'draw' ? faRoad : faEraser} className="text-blue-600" />
+                <span>{roadTool === 'draw' ? 'Drag across the map to build a road' : 'Drag over roads to erase them'}</span>
+              </div>
+            </div>
+          )}
+
+          {terrainTool && (
+            <div
+              className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm p-2 rounded-lg shadow-md flex flex-col gap-2"
+              role="toolbar"
+              aria-label="Ground painting"
+            >
+              <div className="flex gap-1">
+                {TERRAIN_TYPES.map(terrain => (
+                  <button
+                    key={terrain}
+                    className={`w-8 h-8 rounded-full border-2 border-white shadow ${
+                      terrainTool.mode !== 'erase' && terrainTool.terrain === terrain ? 'ring-2 ring-blue-500' : ''
+                    }`}
+                    style={{ backgroundColor: `#${TERRAIN_COLORS[terrain].toString(16).padStart(6, '0')}` }}
+                    onClick={() => changeTerrainTool({ terrain, mode: terrainTool.mode === 'erase' ? 'brush' : terrainTool.mode })}
+                    aria-label={TERRAIN_LABELS[terrain]}
+                    aria-pressed={terrainTool.mode !== 'erase' && terrainTool.terrain === terrain}
+                    title={TERRAIN_LABELS[terrain]}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                {BRUSH_SIZES.map(({ size, label }) => (
+                  <button
+                    key={size}
+                    className={`icon-button w-8 h-8 ${terrainTool.mode !== 'fill' && terrainTool.size === size ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+                    onClick={() => changeTerrainTool({ size, mode: terrainTool.mode === 'fill' ? 'brush' : terrainTool.mode })}
+                    aria-label={label}
+                    aria-pressed={terrainTool.mode !== 'fill' && terrainTool.size === size}
+                  >
+                    <span
+                      className="block rounded-full bg-gray-700"
+                      style={{ width: BRUSH_RADII[size] * 2, height: BRUSH_RADII[size] * 2 }}
+                    />
+                  </button>
+                ))}
+                <div className="border-l border-gray-300 h-6 mx-1" />
+                <button
+                  className={`icon-button w-8 h-8 ${terrainTool.mode === 'fill' ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+                  onClick={() => changeTerrainTool({ mode: 'fill' })}
+                  aria-label="Fill"
+                  aria-pressed={terrainTool.mode === 'fill'}
+                  title="Fill"
+                >
+                  <FontAwesomeIcon icon={faFillDrip} />
+                </button>
+                <button
+                  className={`icon-button w-8 h-8 ${terrainTool.mode === 'erase' ? 'bg-blue-100 ring-2 ring-blue-500' : ''}`}
+                  onClick={() => changeTerrainTool({ mode: 'erase' })}
+                  aria-label="Erase ground"
+                  aria-pressed={terrainTool.mode === 'erase'}
+                  title="Erase"
+                >
+                  <FontAwesomeIcon icon={faEraser} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {terrainTool && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/80 backdrop-blur-sm py-2 px-4 rounded-full shadow-md">
+              <div className="flex items-center gap-2">
+                <FontAwesomeIcon icon={TERRAIN_TOOL_ICONS[terrainTool.mode]} className="text-blue-600" />
+                <span>{TERRAIN_TOOL_HINTS[terrainTool.mode]}</span>
+              </div>
+            </div>
+          )}
+
+          {selectedAsset && !roadTool && !terrainTool && (
             <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/80 backdrop-blur-sm py-2 px-4 rounded-full shadow-md">
               <div className="flex items-center gap-2">
                 <FontAwesomeIcon 
-                  icon={ASSETS.find(a => a.type === selectedAssetType)?.icon || faHome} 
+                  icon={getAssetIcon(selectedAsset.icon)} 
                   className="text-blue-600" 
                 />
-                <span>Click on the map to place</span>
+                <span>Tap the map to place</span>
               </div>
             </div>
           )}
         </div>
         
-        {/* Sidebar - Layer Controls */}
-        {layers.length > 0 && (
-          <div className="w-64 bg-white rounded-lg shadow-md p-4 overflow-y-auto">
-            <h3 className="font-bold mb-3 text-center">My City Items</h3>
-            
-            <div className="space-y-2">
-              {layers.map(layer => {
-                const asset = ASSETS.find(a => a.type === layer.type);
-                return (
-                  <div 
-                    key={layer.id}
-                    className={`p-2 rounded-lg border flex items-center gap-2 ${selectedLayerId === layer.id ? 'bg-blue-50 border-blue-300' : 'border-gray-200'}`}
-                    onClick={() => selectLayer(layer.id)}
-                  >
-                    {/* Item icon */}
-                    <div className="w-8 h-8 flex items-center justify-center">
-                      {asset && <FontAwesomeIcon icon={asset.icon} />}
-                    </div>
-                    
-                    {/* Item name */}
-                    <div className="flex-1 text-sm">
-                      {asset?.name || 'Item'} {layer.version > 1 ? `v${layer.version}` : ''}
-                    </div>
-                    
-                    {/* Controls */}
-                    <button 
-                      className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-blue-600"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleLayerVisibility(layer.id);
+        <div className="w-64 flex flex-col gap-4">
+          <BudgetPanel spending={spending} budget={budget} materials={materials} />
+
+          {/* Actions for the selected items */}
+          {(selectedLayers.length > 0 || clipboard.length > 0) && (
+            <div className="bg-white rounded-lg shadow-md p-3">
+              <h3 className="font-bold text-sm mb-2 text-center">
+                {selectedLayers.length > 0 ? `${selectedLayers.length} selected` : 'Clipboard'}
+              </h3>
+              <div className="flex flex-wrap justify-center gap-1">
+                <button
+                  className="icon-button disabled:opacity-50"
+                  onClick={duplicateSelection}
+                  disabled={selectedLayers.length === 0}
+                  aria-label="Duplicate"
+                  aria-keyshortcuts="Control+D"
+                >
+                  <FontAwesomeIcon icon={faClone} />
+                </button>
+                <button
+                  className="icon-button disabled:opacity-50"
+                  onClick={copySelection}
+                  disabled={selectedLayers.length === 0}
+                  aria-label="Copy"
+                  aria-keyshortcuts="Control+C"
+                >
+                  <FontAwesomeIcon icon={faCopy} />
+                </button>
+                <button
+                  className="icon-button disabled:opacity-50"
+                  onClick={pasteClipboard}
+                  disabled={clipboard.length === 0}
+                  aria-label="Paste"
+                  aria-keyshortcuts="Control+V"
+                >
+                  <FontAwesomeIcon icon={faPaste} />
+                </button>
+                <button
+                  className="icon-button disabled:opacity-50"
+                  onClick={groupSelection}
+                  disabled={selectedLayers.length < 2}
+                  aria-label="Group"
+                  aria-keyshortcuts="Control+G"
+                >
+                  <FontAwesomeIcon icon={faObjectGroup} />
+                </button>
+                <button
+                  className="icon-button disabled:opacity-50"
+                  onClick={ungroupSelection}
+                  disabled={!isGroupSelected}
+                  aria-label="Ungroup"
+                  aria-keyshortcuts="Control+Shift+G"
+                >
+                  <FontAwesomeIcon icon={faObjectUngroup} />
+                </button>
+                <button
+                  className="icon-button hover:text-red-600 disabled:opacity-50"
+                  onClick={deleteSelection}
+                  disabled={selectedLayers.length === 0}
+                  aria-label="Delete selected"
+                  aria-keyshortcuts="Delete"
+                >
+                  <FontAwesomeIcon icon={faTrash} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Sidebar - Layer Controls */}
+          {layers.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md p-4 overflow-y-auto">
+              <h3 className="font-bold mb-1 text-center">My City Items</h3>
+              <p className="text-xs text-gray-500 text-center mb-3">Front of the map first. Drag to reorder.</p>
+              
+              <div className="space-y-2" onMouseLeave={() => setHoveredLayerId(null)}>
+                {stackedLayers.map((layer, i) => {
+                  const asset = findAsset(assets, layer.type);
+                  const isSelected = selectedLayerIds.includes(layer.id);
+                  // Shift-click adds to or takes from the selection
+                  const handleSelect = (e: React.MouseEvent) => {
+                    e.stopPropagation();
+                    if (e.shiftKey) toggleLayerSelection(layer.id);
+                    else selectLayer(layer.id);
+                  };
+                  return (
+                    <div 
+                      key={layer.id}
+                      className={`p-2 rounded-lg border ${isSelected ? 'bg-blue-50 border-blue-300' : 'border-gray-200'} ${dropTargetId === layer.id ? 'ring-2 ring-blue-500' : ''}`}
+                      onClick={handleSelect}
+                      onMouseEnter={() => setHoveredLayerId(layer.id)}
+                      onDragOver={(e) => {
+                        if (!e.dataTransfer.types.includes(LAYER_ROW_DRAG_TYPE)) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = 'move';
+                        setDropTargetId(layer.id);
                       }}
+                      onDragLeave={() => setDropTargetId(null)}
+                      onDrop={(e) => handleRowDrop(e, layer.id)}
                     >
-                      <FontAwesomeIcon icon={layer.visible ? faEye : faEyeSlash} size="sm" />
-                    </button>
-                    
-                    <button 
-                      className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-blue-600"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleLayerLock(layer.id);
-                      }}
+                      <div className="flex items-center gap-2">
+                        {/* Drag handle */}
+                        <div
+                          className="w-4 flex items-center justify-center text-gray-400 cursor-grab"
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData(LAYER_ROW_DRAG_TYPE, layer.id);
+                            e.dataTransfer.effectAllowed = 'move';
+                          }}
+                          onDragEnd={() => setDropTargetId(null)}
+                          aria-hidden="true"
+                        >
+                          <FontAwesomeIcon icon={faGripVertical} size="sm" />
+                        </div>
+
+                        {/* Item icon */}
+                        <div className="w-6 h-8 flex items-center justify-center">
+                          {asset && <FontAwesomeIcon icon={getAssetIcon(asset.icon)} />}
+                        </div>
+                      
+                        {/* Item name, which also selects it from the keyboard */}
+                        <button
+                          className="flex-1 text-sm text-left p-0"
+                          onClick={handleSelect}
+                          aria-pressed={isSelected}
+                          aria-label={`${describeLayer(layer)}${layer.groupId ? ', grouped' : ''}`}
+                        >
+                          {asset?.name || 'Item'} {layer.version > 1 ? `v${layer.version}` : ''}
+                        </button>
+
+                        {/* Part of a group */}
+                        {layer.groupId && (
+                          <FontAwesomeIcon icon={faObjectGroup} size="sm" className="text-gray-400" title="Grouped" />
+                        )}
+                      
+                        {/* Controls */}
+                        <button 
+                          className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-blue-600"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleLayerVisibility(layer.id);
+                          }}
+                          aria-label={`${layer.visible ? 'Hide' : 'Show'} ${describeLayer(layer)}`}
+                        >
+                          <FontAwesomeIcon icon={layer.visible ? faEye : faEyeSlash} size="sm" />
+                        </button>
+                      
+                        <button 
+                          className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-blue-600"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleLayerLock(layer.id);
+                          }}
+                          aria-label={`${layer.locked ? 'Unlock' : 'Lock'} ${describeLayer(layer)}`}
+                        >
+                          <FontAwesomeIcon icon={layer.locked ? faLock : faLockOpen} size="sm" />
+                        </button>
+                      
+                        <button 
+                          className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-red-600 disabled:opacity-50 disabled:hover:text-gray-500"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeLayer(layer.id);
+                          }}
+                          disabled={layer.locked}
+                          aria-label={`Delete ${describeLayer(layer)}`}
+                        >
+                          <FontAwesomeIcon icon={faTrash} size="sm" />
+                        </button>
+                      </div>
+
+                      {/* Place in the stack */}
+                      <div className="flex justify-end gap-1 mt-1">
+                        {STACK_BUTTONS.map(({ direction, icon, label }) => {
+                          const isAtEdge = direction === 'front' || direction === 'forward' ? i === 0 : i === stackedLayers.length - 1;
+                          return (
+                            <button
+                              key={direction}
+                              className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRestack(layer, direction);
+                              }}
+                              disabled={isAtEdge}
+                              aria-label={`${label}: ${describeLayer(layer)}`}
+                              title={label}
+                            >
+                              <FontAwesomeIcon icon={icon} size="xs" />
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Upgrade path for the selected item */}
+              {selectedLayer && selectedLayerAsset && upgradePath && (
+                <div className="mt-4 pt-3 border-t border-gray-200">
+                  <h4 className="font-bold text-sm mb-2 text-center">Upgrade {selectedLayerAsset.name}</h4>
+
+                  <div className="flex items-center justify-center gap-1 mb-3">
+                    {upgradePath.map((step, i) => (
+                      <React.Fragment key={step.version}>
+                        {i > 0 && <span className="text-gray-400">›</span>}
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs ${step.version === selectedLayer.version ? 'bg-blue-500 text-white' : step.version < selectedLayer.version ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-500'}`}
+                        >
+                          v{step.version}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+
+                  <div className="flex justify-center gap-2">
+                    <button
+                      className="icon-button disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => changeLayerVersion(selectedLayer.id, -1)}
+                      disabled={selectedLayer.locked || !getAdjacentVersion(selectedLayerAsset, selectedLayer.version, -1)}
+                      aria-label="Downgrade"
                     >
-                      <FontAwesomeIcon icon={layer.locked ? faLock : faLockOpen} size="sm" />
+                      <FontAwesomeIcon icon={faArrowDown} />
                     </button>
-                    
-                    <button 
-                      className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-red-600"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        removeLayer(layer.id);
-                      }}
+                    <button
+                      className="icon-button text-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => changeLayerVersion(selectedLayer.id, 1)}
+                      disabled={selectedLayer.locked || !getAdjacentVersion(selectedLayerAsset, selectedLayer.version, 1)}
+                      aria-label="Upgrade"
                     >
-                      <FontAwesomeIcon icon={faTrash} size="sm" />
+                      <FontAwesomeIcon icon={faArrowUp} />
                     </button>
                   </div>
-                );
-              })}
+                </div>
+              )}
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
       
+      {/* Why a house is as happy as it is */}
+      {mapHover && hoveredHouse && !itemMenu && (
+        <HouseHappinessCard house={hoveredHouse} position={mapHover.position} />
+      )}
+
+      {/* Press-and-hold menu for an item */}
+      {itemMenu && menuLayer && (
+        <RadialMenu
+          position={itemMenu.position}
+          onClose={() => setItemMenu(null)}
+          actions={[
+            {
+              label: 'Delete',
+              icon: faTrash,
+              onSelect: () => removeLayer(menuLayer.id),
+              disabled: menuLayer.locked,
+              className: 'text-red-600',
+            },
+            {
+              label: menuLayer.locked ? 'Unlock' : 'Lock',
+              icon: menuLayer.locked ? faLockOpen : faLock,
+              onSelect: () => toggleLayerLock(menuLayer.id),
+            },
+            {
+              label: 'Upgrade',
+              icon: faArrowUp,
+              onSelect: () => changeLayerVersion(menuLayer.id, 1),
+              disabled: menuLayer.locked || !menuAsset || !getAdjacentVersion(menuAsset, menuLayer.version, 1),
+              className: 'text-green-600',
+            },
+          ]}
+        />
+      )}
+
       {/* Bottom Storage Bar */}
       <div className="storage-bar-container">
         <h3 className="text-sm font-medium mb-1 px-1">Storage</h3>
-        <div className="storage-bar h-16">
+        <div
+          ref={storageBarRef}
+          className={`storage-bar h-16 ${isStorageHover ? 'ring-2 ring-blue-500 bg-blue-50' : ''}`}
+          role="list"
+          aria-label="Storage"
+        >
           {storageItems.map(item => {
-            const asset = ASSETS.find(a => a.type === item.type);
+            const asset = findAsset(assets, item.type);
             return (
               <div 
                 key={item.id} 
-                className="storage-item w-12 h-12 flex items-center justify-center bg-white rounded-md shadow-sm m-1 cursor-grab"
+                className="storage-item relative w-12 h-12 flex items-center justify-center bg-white rounded-md shadow-sm m-1 cursor-grab"
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(STORAGE_ITEM_DRAG_TYPE, item.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                title={asset?.name}
+                role="listitem"
+                aria-label={describeLayer(item)}
               >
-                {asset && <FontAwesomeIcon icon={asset.icon} />}
+                {asset && <FontAwesomeIcon icon={getAssetIcon(asset.icon)} />}
+                {item.version > 1 && (
+                  <span className="absolute -top-1 -right-1 text-[10px] bg-blue-500 text-white rounded-full px-1">
+                    v{item.version}
+                  </span>
+                )}
               </div>
             );
           })}
@@ -1,310 +1,1186 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useImperativeHandle, useMemo } from 'react';
 import * as PIXI from 'pixi.js';
 import { debounce } from 'lodash';
 
-// Types for layers and positions
-export interface Layer {
-  id: string;
-  type: string;
-  position: { x: number; y: number };
-  scale: number;
-  rotation?: number;
-  opacity: number;
-  zIndex: number;
-  locked: boolean;
-  visible: boolean;
-  version: number;
-  texturePath: string;
-}
+import type { RoadCell } from '../types/city';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  DEFAULT_BG_COLOR,
+  applyLayerToSprite,
+  createPointMarker,
+  createRoadNetwork,
+  createSelectionOutline,
+  createSocketCue,
+  createTerrainGraphics,
+  loadTexture,
+  placeSprite,
+} from '../utils/pixiScene';
+import { findSocket, positionOnPoint } from '../utils/mapSockets';
+import { GRID_CELL_SIZE, snapToGrid } from '../utils/grid';
+import { cellsBetween, toRoadCell, type RoadTool } from '../utils/roads';
+import {
+  BRUSH_RADII,
+  createTerrainGrid,
+  floodFill,
+  getTerrainCellIndex,
+  getTerrainCode,
+  stampBrush,
+  stampLine,
+  type TerrainGrid,
+  type TerrainTool,
+} from '../utils/terrain';
+import { createAnimalSimulation, createSeededRandom } from '../utils/animalSimulation';
+import { findAsset } from '../utils/assetManifest';
+import useAssetManifest from '../hooks/useAssetManifest';
+import { getMapTemplate } from '../utils/mapTemplates';
+import { renderCityImage, type ExportOptions } from '../utils/pngExporter';
+import { reconcileLayers, type SceneEntry } from '../utils/sceneReconciler';
+import { createTransformGizmo, type TransformGizmo } from '../utils/transformGizmo';
+import { playSparkle } from '../utils/sparkle';
+import { createCamera, type Camera } from '../utils/camera';
+import { useCityStore } from '../store/cityStore';
+import CameraControls from './CameraControls';
 
-export interface Point {
-  x: number;
-  y: number;
-  type: string; // e.g., "hospital", "bakery", "school", "open"
-  name?: string;
+// Imperative API exposed through the component's ref
+export interface CityCanvasHandle {
+  exportImage: (options: ExportOptions) => Promise<Blob>;
+  // World position under a point on the page, or null when it is off the canvas
+  clientToWorld: (client: { x: number; y: number }) => { x: number; y: number } | null;
+  // World position in the middle of the view
+  getViewCenter: () => { x: number; y: number };
 }
 
 interface CityCanvasProps {
+  ref?: React.Ref<CityCanvasHandle>;
   width?: number;
   height?: number;
   backgroundColor?: number;
-  initialLayers?: Layer[];
-  mapPoints?: Point[];
-  onLayerSelect?: (layer: Layer | null) => void;
-  onLayerUpdate?: (layers: Layer[]) => void;
+  // Called while a layer is dragged; return true when the pointer is over a drop
+  // target outside the canvas
+  onLayerDragMove?: (layerId: string, client: { x: number; y: number }) => boolean;
+  // Called when a layer is dropped; return true if something outside the canvas took it
+  onLayerDrop?: (layerId: string, client: { x: number; y: number }) => boolean;
+  // Called when the map itself is tapped or clicked (not an item, and not the end of a pan)
+  onMapTap?: (world: { x: number; y: number }) => void;
+  // Called when an item is pressed and held, with where on the page
+  onLayerLongPress?: (layerId: string, client: { x: number; y: number }) => void;
+  // Called when the pointer goes over an item, with where on the page, and with
+  // null when it leaves
+  onLayerHover?: (layerId: string | null, client: { x: number; y: number }) => void;
+  // When true, dragging empty space draws a selection box instead of panning.
+  // Shift+drag always does.
+  selectionMode?: boolean;
+  // Item to pick out on the map, e.g. while its row in a list is hovered
+  highlightedLayerId?: string | null;
+  // With a road tool on, dragging anywhere on the map lays or erases road
+  // along the grid instead of moving items or the view
+  roadTool?: RoadTool | null;
+  // With a terrain tool on, pressing the map paints, erases or fills ground
+  // instead of moving items or the view
+  terrainTool?: TerrainTool | null;
+  // Whether animals wander about; when false they stand where they are
+  animalsPlaying?: boolean;
+}
+
+// Another selected layer dragged along with the one under the pointer
+interface DragCompanion {
+  layerId: string;
+  sprite: PIXI.Sprite;
+  start: { x: number; y: number };
+  scale: number;
+}
+
+// State for an in-progress sprite drag
+interface DragState {
+  layerId: string;
+  sprite: PIXI.Sprite;
+  offset: { x: number; y: number };
+  start: { x: number; y: number };
+  // Layer position (top-left corner) under the pointer
+  position: { x: number; y: number };
+  scale: number;
+  alpha: number;
+  moved: boolean;
+  // Map point the layer would snap onto, or whether the spot under it is off limits
+  pointId?: string;
+  blocked: boolean;
+  cue: PIXI.Graphics | null;
+  // Other selected layers, which move along by the same amount
+  companions: DragCompanion[];
+}
+
+// An in-progress road stroke, which is one undo step
+interface RoadStrokeState {
+  // Whether the stroke lays or erases road, fixed when it starts
+  tool: RoadTool;
+  // Cell the pointer was last over
+  last: RoadCell;
+}
+
+// An in-progress terrain brush stroke, kept off the store until the pointer
+// lifts so the whole stroke is one undo step
+interface TerrainStrokeState {
+  // Terrain before the stroke, and its cells with the stroke painted in
+  grid: TerrainGrid;
+  cells: string[];
+  // World position the brush was last at
+  last: { x: number; y: number };
+  code: string;
+  radius: number;
+}
+
+// An in-progress selection box, from where the drag started in screen coordinates
+interface MarqueeState {
+  origin: { x: number; y: number };
+  current: { x: number; y: number };
+  // Shift adds to the selection instead of replacing it
+  additive: boolean;
+  graphics: PIXI.Graphics;
 }
 
-const CANVAS_WIDTH = 1920;
-const CANVAS_HEIGHT = 1080;
-const DEFAULT_BG_COLOR = 0xc2e3f8; // Light blue background
+// An in-progress pan of the camera by dragging empty space
+interface PanState {
+  last: { x: number; y: number };
+  travelled: number;
+}
+
+// An in-progress two-finger pinch
+interface PinchState {
+  startDistance: number;
+  startZoom: number;
+  lastMiddle: { x: number; y: number };
+}
+
+// An item being pressed, until it is held long enough or the pointer moves
+interface LongPressState {
+  timer: ReturnType<typeof setTimeout>;
+  origin: { x: number; y: number };
+}
+
+// Tint for an item dragged over a spot it can't go on
+const BLOCKED_TINT = 0xff9999;
+
+// How far (in screen pixels) the pointer moves before a press on empty space
+// counts as a pan rather than a click
+const PAN_THRESHOLD = 4;
+
+const MARQUEE_COLOR = 0x3b82f6;
+
+// Colour of the grid lines in grid mode
+const GRID_COLOR = 0xffffff;
+
+// Outline of the highlighted item
+const HIGHLIGHT_COLOR = 0xf59e0b;
+
+// How long (ms) an item is held before its menu opens
+const LONG_PRESS_DURATION = 500;
+
+// Zoom change per pixel of mouse wheel movement
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+// Animals wander the same way every time the builder opens
+const ANIMAL_SEED = 20261018;
+
+// Keep a position inside the world bounds
+const clampToWorld = (position: { x: number; y: number }, width: number, height: number) => ({
+  x: Math.min(Math.max(position.x, 0), width),
+  y: Math.min(Math.max(position.y, 0), height),
+});
 
 const CityCanvas: React.FC<CityCanvasProps> = ({
+  ref,
   width = CANVAS_WIDTH,
   height = CANVAS_HEIGHT,
   backgroundColor = DEFAULT_BG_COLOR,
-  initialLayers = [],
-  mapPoints = [],
-  onLayerSelect,
-  onLayerUpdate,
+  onLayerDragMove,
+  onLayerDrop,
+  onMapTap,
+  onLayerLongPress,
+  onLayerHover,
+  selectionMode = false,
+  highlightedLayerId = null,
+  roadTool = null,
+  terrainTool = null,
+  animalsPlaying = true,
 }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
   const appRef = useRef<PIXI.Application | null>(null);
-  const layersRef = useRef<Map<string, PIXI.DisplayObject>>(new Map());
-  const [layers, setLayers] = useState<Layer[]>(initialLayers);
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const layerContainerRef = useRef<PIXI.Container | null>(null);
+  const pointsContainerRef = useRef<PIXI.Container | null>(null);
+  const backgroundContainerRef = useRef<PIXI.Container | null>(null);
+  const terrainContainerRef = useRef<PIXI.Container | null>(null);
+  const terrainGraphicsRef = useRef<PIXI.Graphics | null>(null);
+  const roadsContainerRef = useRef<PIXI.Container | null>(null);
+  const overlayContainerRef = useRef<PIXI.Container | null>(null);
+  const cameraRef = useRef<Camera | null>(null);
+  const gizmoRef = useRef<TransformGizmo | null>(null);
+  const layersRef = useRef<Map<string, SceneEntry>>(new Map());
+  const reconcilePassRef = useRef<number>(0);
+  // Last version drawn for each layer, to notice upgrades
+  const versionsRef = useRef<Map<string, number>>(new Map());
+
+  // City state comes from the shared store
+  const layers = useCityStore(state => state.layers);
+  const mapPoints = useCityStore(state => state.mapPoints);
+  const roads = useCityStore(state => state.roads);
+  const terrain = useCityStore(state => state.terrain);
+  const background = useCityStore(state => getMapTemplate(state.mapTemplateId)?.background ?? null);
+  // Ids of the map points something sits on, as a string so it only changes when they do
+  const occupiedPointIds = useCityStore(state =>
+    state.layers.flatMap(layer => (layer.pointId ? [layer.pointId] : [])).sort().join(',')
+  );
+  const selectedLayerId = useCityStore(state => state.selectedLayerId);
+  const selectedLayerIds = useCityStore(state => state.selectedLayerIds);
+  const selectLayer = useCityStore(state => state.selectLayer);
+  const toggleLayerSelection = useCityStore(state => state.toggleLayerSelection);
+  const selectLayers = useCityStore(state => state.selectLayers);
+  const moveLayers = useCityStore(state => state.moveLayers);
+  const moveLayer = useCityStore(state => state.moveLayer);
+  const updateLayer = useCityStore(state => state.updateLayer);
+  const gridEnabled = useCityStore(state => state.gridEnabled);
+
+  // Asset anchors decide which point of an item snaps onto map points
+  const { assets } = useAssetManifest();
+
   const [isReady, setIsReady] = useState<boolean>(false);
-  const [scale, setScale] = useState<number>(1);
+  // Same as cameraRef, as state so the zoom controls render once it exists
+  const [camera, setCamera] = useState<Camera | null>(null);
+  // Bumped after every reconcile pass so overlays can follow sprite changes
+  const [sceneVersion, setSceneVersion] = useState<number>(0);
 
-  // Texture cache to avoid reloading
-  const textureCache = useRef<Map<string, PIXI.Texture>>(new Map());
+  // Drag state lives in refs so pointer moves don't trigger re-renders
+  const dragRef = useRef<DragState | null>(null);
+  const panRef = useRef<PanState | null>(null);
+  const pinchRef = useRef<PinchState | null>(null);
+  const marqueeRef = useRef<MarqueeState | null>(null);
+  const roadStrokeRef = useRef<RoadStrokeState | null>(null);
+  const terrainStrokeRef = useRef<TerrainStrokeState | null>(null);
+  const longPressRef = useRef<LongPressState | null>(null);
+  // Pointers currently pressed, by id, in screen coordinates
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
 
-  // Initialize PixiJS application
+  // Latest tap, long-press and hover callbacks, so new ones don't restart the gesture handling
+  const onMapTapRef = useRef(onMapTap);
+  const onLayerLongPressRef = useRef(onLayerLongPress);
+  const onLayerHoverRef = useRef(onLayerHover);
+  // Read by item sprites, which are wired up once
+  const isPaintingRef = useRef(!!(roadTool || terrainTool));
+  // Read by the animal ticker, so pausing doesn't restart it
+  const animalsPlayingRef = useRef(animalsPlaying);
+  // Read by the pointer gestures, so a tool or setting changing mid-gesture
+  // doesn't drop a drag or pinch in progress
+  const gestureOptionsRef = useRef({ assets, gridEnabled, selectionMode, roadTool, terrainTool, onLayerDragMove, onLayerDrop });
   useEffect(() => {
-    if (!canvasRef.current) return;
-
-    // Clean up any existing application
-    if (appRef.current) {
-      appRef.current.destroy(true);
-    }
-
-    // Create a new PIXI Application
-    const app = new PIXI.Application({
-      width,
-      height,
-      backgroundColor,
-      antialias: true,
-      resolution: window.devicePixelRatio || 1,
-      autoDensity: true,
-    });
+    onMapTapRef.current = onMapTap;
+    onLayerLongPressRef.current = onLayerLongPress;
+    onLayerHoverRef.current = onLayerHover;
+    isPaintingRef.current = !!(roadTool || terrainTool);
+    animalsPlayingRef.current = animalsPlaying;
+    gestureOptionsRef.current = { assets, gridEnabled, selectionMode, roadTool, terrainTool, onLayerDragMove, onLayerDrop };
+  });
 
-    // Add the canvas to the DOM
-    canvasRef.current.appendChild(app.view as unknown as Node);
-    appRef.current = app;
+  // Where animals have wandered lives here and on their sprites, never in the
+  // store, so it doesn't touch undo history or auto-save
+  const animalSimulation = useMemo(
+    () => createAnimalSimulation({ random: createSeededRandom(ANIMAL_SEED), world: { width, height } }),
+    [width, height]
+  );
+
+  // Initialize PixiJS application
+  useEffect(() => {
+    const host = canvasRef.current;
+    if (!host) return;
 
-    // Create a container for all layers
-    const layerContainer = new PIXI.Container();
-    app.stage.addChild(layerContainer);
+    const app = new PIXI.Application();
+    const entries = layersRef.current;
+    const versions = versionsRef.current;
+    let cancelled = false;
 
     // Set up responsive scaling
     const updateScale = () => {
-      if (!canvasRef.current || !app.view) return;
+      if (!canvasRef.current) return;
       
       const containerWidth = canvasRef.current.clientWidth;
-      const newScale = containerWidth / width;
+      const containerHeight = containerWidth * (height / width);
       
-      setScale(newScale);
-      
-      // Update the canvas size
-      app.renderer.resize(containerWidth, containerWidth * (height / width));
-      
-      // Scale the stage to maintain aspect ratio
-      app.stage.scale.set(newScale);
+      // Update the canvas size; the camera scales the world to match
+      app.renderer.resize(containerWidth, containerHeight);
+      cameraRef.current?.setViewport(containerWidth, containerHeight);
     };
 
-    // Initial scale update
-    updateScale();
-
     // Update scale on window resize
     const handleResize = debounce(updateScale, 100);
-    window.addEventListener('resize', handleResize);
 
-    // Mark as ready
-    setIsReady(true);
+    const setup = async () => {
+      await app.init({
+        width,
+        height,
+        background: backgroundColor,
+        antialias: true,
+        resolution: window.devicePixelRatio || 1,
+        autoDensity: true,
+      });
+
+      // The component may have unmounted while the renderer was starting
+      if (cancelled) {
+        app.destroy(true);
+        return;
+      }
+
+      // Add the canvas to the DOM
+      host.appendChild(app.canvas);
+      appRef.current = app;
+
+      // The map background, its painted terrain, its roads and its points sit
+      // underneath the layer sprites, which sort themselves by zIndex. The
+      // selection overlay stays above everything. The camera moves and zooms
+      // all of them together.
+      const worldContainer = new PIXI.Container();
+      const backgroundContainer = new PIXI.Container();
+      const terrainContainer = new PIXI.Container();
+      const roadsContainer = new PIXI.Container();
+      const pointsContainer = new PIXI.Container();
+      const layerContainer = new PIXI.Container();
+      const overlayContainer = new PIXI.Container();
+      layerContainer.sortableChildren = true;
+      worldContainer.addChild(backgroundContainer, terrainContainer, roadsContainer, pointsContainer, layerContainer, overlayContainer);
+      app.stage.addChild(worldContainer);
+      const camera = createCamera(worldContainer, { width, height });
+      cameraRef.current = camera;
+      setCamera(camera);
+      backgroundContainerRef.current = backgroundContainer;
+      terrainContainerRef.current = terrainContainer;
+      roadsContainerRef.current = roadsContainer;
+      pointsContainerRef.current = pointsContainer;
+      layerContainerRef.current = layerContainer;
+      overlayContainerRef.current = overlayContainer;
+
+      // Initial scale update
+      updateScale();
+      window.addEventListener('resize', handleResize);
+
+      // Mark as ready
+      setIsReady(true);
+    };
+
+    setup();
 
     return () => {
+      cancelled = true;
       window.removeEventListener('resize', handleResize);
-      if (appRef.current) {
-        appRef.current.destroy(true);
+      handleResize.cancel();
+
+      if (appRef.current === app) {
+        app.destroy(true, { children: true });
         appRef.current = null;
+        backgroundContainerRef.current = null;
+        terrainContainerRef.current = null;
+        terrainGraphicsRef.current = null;
+        roadsContainerRef.current = null;
+        pointsContainerRef.current = null;
+        layerContainerRef.current = null;
+        overlayContainerRef.current = null;
+        cameraRef.current = null;
+        setCamera(null);
+        gizmoRef.current = null;
+        entries.clear();
+        versions.clear();
+        setIsReady(false);
       }
     };
   }, [width, height, backgroundColor]);
 
-  // Load and render layers whenever they change
+  // Wire up selection and dragging for a newly created sprite
+  const setupSprite = useCallback((sprite: PIXI.Sprite, layerId: string) => {
+    sprite.on('pointerover', (event) => {
+      onLayerHoverRef.current?.(layerId, { x: event.client.x, y: event.client.y });
+    });
+    sprite.on('pointerout', (event) => {
+      onLayerHoverRef.current?.(null, { x: event.client.x, y: event.client.y });
+    });
+
+    sprite.on('pointerdown', (event) => {
+      const entry = layersRef.current.get(layerId);
+      // Road and terrain tools paint over items rather than picking them up
+      if (!entry || !cameraRef.current || isPaintingRef.current) return;
+
+      // Shift-click adds to or takes from the selection
+      if (event.shiftKey) {
+        toggleLayerSelection(layerId);
+        return;
+      }
+      if (entry.layer.locked) return;
+
+      // Grabbing part of the selection keeps it, so the whole selection moves
+      const { selectedLayerIds } = useCityStore.getState();
+      if (!selectedLayerIds.includes(layerId)) selectLayer(layerId);
+      const companions = useCityStore.getState().selectedLayerIds.flatMap(id => {
+        const companion = layersRef.current.get(id);
+        if (id === layerId || !companion || companion.layer.locked) return [];
+        return [{ layerId: id, sprite: companion.sprite, start: companion.layer.position, scale: companion.layer.scale }];
+      });
+
+      // Start dragging, remembering where the layer was grabbed
+      const world = cameraRef.current.toWorld(event.global);
+      const { position, scale } = entry.layer;
+      dragRef.current = {
+        layerId,
+        sprite,
+        offset: { x: world.x - position.x, y: world.y - position.y },
+        start: position,
+        position,
+        scale,
+        alpha: sprite.alpha,
+        moved: false,
+        pointId: entry.layer.pointId,
+        blocked: false,
+        cue: null,
+        companions,
+      };
+      sprite.cursor = 'grabbing';
+    });
+  }, [selectLayer, toggleLayerSelection]);
+
+  // Reconcile sprites with the layers whenever they change
   useEffect(() => {
-    if (!isReady || !appRef.current) return;
+    const container = layerContainerRef.current;
+    if (!isReady || !container) return;
+
+    const pass = ++reconcilePassRef.current;
 
-    const renderLayers = async () => {
-      // Clear existing layers
-      layersRef.current.forEach((displayObject) => {
-        displayObject.parent?.removeChild(displayObject);
+    reconcileLayers({
+      container,
+      entries: layersRef.current,
+      layers,
+      setupSprite,
+      draggingId: dragRef.current?.layerId ?? null,
+      isCurrent: () => pass === reconcilePassRef.current && layerContainerRef.current === container,
+    }).then(applied => {
+      if (applied) setSceneVersion(version => version + 1);
+    });
+  }, [layers, isReady, setupSprite]);
+
+  // Tell the animals about the city they're in
+  useEffect(() => {
+    animalSimulation.sync(layers, assets);
+  }, [animalSimulation, layers, assets]);
+
+  // Walk the animals every frame. Selected and dragged ones stay on their
+  // layer's spot so the gizmo and drags work on where they really are.
+  useEffect(() => {
+    const app = appRef.current;
+    if (!isReady || !app) return;
+
+    const update = (time: PIXI.Ticker) => {
+      const drag = dragRef.current;
+      const dragged = drag ? [drag.layerId, ...drag.companions.map(companion => companion.layerId)] : [];
+      const held = new Set([...useCityStore.getState().selectedLayerIds, ...dragged]);
+
+      const sentHome = animalSimulation.step(animalsPlayingRef.current ? time.deltaMS : 0, held);
+      sentHome.forEach(id => {
+        const entry = layersRef.current.get(id);
+        if (entry) applyLayerToSprite(entry.sprite, entry.layer);
       });
-      layersRef.current.clear();
-
-      // Sort layers by zIndex
-      const sortedLayers = [...layers].sort((a, b) => a.zIndex - b.zIndex);
-
-      // Render each layer
-      for (const layer of sortedLayers) {
-        if (!layer.visible) continue;
-
-        try {
-          let texture: PIXI.Texture;
-
-          // Use cached texture if available
-          if (textureCache.current.has(layer.texturePath)) {
-            texture = textureCache.current.get(layer.texturePath)!;
-          } else {
-            // Load the texture
-            texture = await PIXI.Assets.load(layer.texturePath);
-            textureCache.current.set(layer.texturePath, texture);
-          }
-
-          // Create sprite
-          const sprite = new PIXI.Sprite(texture);
-          sprite.position.set(layer.position.x, layer.position.y);
-          sprite.scale.set(layer.scale);
-          sprite.rotation = layer.rotation || 0;
-          sprite.alpha = layer.opacity;
-          sprite.interactive = !layer.locked;
-          sprite.cursor = layer.locked ? 'default' : 'pointer';
-
-          // Add to stage and store reference
-          appRef.current!.stage.addChild(sprite);
-          layersRef.current.set(layer.id, sprite);
-
-          // Set up interaction if not locked
-          if (!layer.locked) {
-            sprite.on('pointerdown', () => {
-              setSelectedLayerId(layer.id);
-              if (onLayerSelect) onLayerSelect(layer);
-            });
-          }
-        } catch (error) {
-          console.error(`Failed to load texture for layer ${layer.id}:`, error);
-        }
+      if (sentHome.length > 0) gizmoRef.current?.sync();
+
+      animalSimulation.getAnimals().forEach(animal => {
+        const entry = layersRef.current.get(animal.layerId);
+        if (!entry || held.has(animal.layerId)) return;
+        const { sprite, layer } = entry;
+        sprite.scale.x = layer.scale * (layer.flipX ? -1 : 1) * animal.facing;
+        placeSprite(sprite, animal.position, layer.scale);
+      });
+    };
+
+    app.ticker.add(update);
+    return () => {
+      // A destroyed app has already dropped its ticker and everything on it
+      if (appRef.current === app) app.ticker.remove(update);
+    };
+  }, [animalSimulation, isReady]);
+
+  // Sparkle when a layer changes version, whether by upgrade, downgrade or undo
+  useEffect(() => {
+    const app = appRef.current;
+    const overlay = overlayContainerRef.current;
+    if (!isReady || !app || !overlay) return;
+
+    const versions = versionsRef.current;
+    layersRef.current.forEach(({ sprite, layer }, id) => {
+      const previous = versions.get(id);
+      if (previous !== undefined && previous !== layer.version && sprite.visible) {
+        const radius = Math.max(sprite.texture.width, sprite.texture.height) * Math.abs(sprite.scale.x) / 2;
+        playSparkle(overlay, app.ticker, sprite.position, radius);
       }
+      versions.set(id, layer.version);
+    });
+
+    // Forget layers that are gone
+    versions.forEach((_, id) => {
+      if (!layersRef.current.has(id)) versions.delete(id);
+    });
+  }, [sceneVersion, isReady]);
+
+  // Show the transform gizmo around the selected layer
+  useEffect(() => {
+    const app = appRef.current;
+    const overlay = overlayContainerRef.current;
+    // Several selected items get outlines instead
+    if (!isReady || !app || !overlay || !camera || !selectedLayerId || selectedLayerIds.length > 1) return;
+
+    const entry = layersRef.current.get(selectedLayerId);
+    if (!entry) return;
+
+    const gizmo = createTransformGizmo({
+      sprite: entry.sprite,
+      layer: entry.layer,
+      stage: app.stage,
+      toWorld: camera.toWorld,
+      getScreenScale: camera.getScale,
+      onGestureEnd: (updates) => {
+        const { findOverlap } = useCityStore.getState();
+        if (updates && !findOverlap([{ ...entry.layer, ...updates }])) updateLayer(selectedLayerId, updates);
+        // A cancelled gesture, or one that would overlap another item in grid
+        // mode, leaves the sprite as the layer describes it
+        else applyLayerToSprite(entry.sprite, entry.layer);
+      },
+    });
+    overlay.addChild(gizmo.container);
+    gizmoRef.current = gizmo;
+
+    return () => {
+      gizmo.destroy();
+      if (gizmoRef.current === gizmo) gizmoRef.current = null;
     };
+  }, [sceneVersion, selectedLayerId, selectedLayerIds, isReady, camera, updateLayer]);
+
+  // Outline every item when several are selected
+  useEffect(() => {
+    if (!isReady || selectedLayerIds.length < 2) return;
+
+    const outlines = selectedLayerIds.flatMap(id => {
+      const entry = layersRef.current.get(id);
+      if (!entry) return [];
+      const outline = createSelectionOutline(entry.sprite);
+      entry.sprite.addChild(outline);
+      return [outline];
+    });
+
+    return () => outlines.forEach(outline => outline.destroy());
+  }, [sceneVersion, selectedLayerIds, isReady]);
+
+  // Outline the highlighted item
+  useEffect(() => {
+    if (!isReady || !highlightedLayerId) return;
+
+    const entry = layersRef.current.get(highlightedLayerId);
+    if (!entry) return;
+    const outline = createSelectionOutline(entry.sprite, HIGHLIGHT_COLOR);
+    entry.sprite.addChild(outline);
+    return () => outline.destroy();
+  }, [sceneVersion, highlightedLayerId, isReady]);
+
+  // Keep the gizmo's handles the same size on screen when the camera zooms
+  useEffect(() => {
+    return camera?.subscribe(() => gizmoRef.current?.sync());
+  }, [camera]);
+
+  // Zoom with the mouse wheel, towards the pointer
+  useEffect(() => {
+    const host = canvasRef.current;
+    if (!host || !camera) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = host.getBoundingClientRect();
+      camera.zoomTo(
+        camera.getZoom() * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED),
+        { x: event.clientX - rect.left, y: event.clientY - rect.top }
+      );
+    };
+
+    // Not passive, so the page doesn't scroll while zooming
+    host.addEventListener('wheel', handleWheel, { passive: false });
+    return () => host.removeEventListener('wheel', handleWheel);
+  }, [camera]);
+
+  // Draw the map template's background image across the whole world
+  useEffect(() => {
+    const container = backgroundContainerRef.current;
+    if (!isReady || !container || !background) return;
+
+    let sprite: PIXI.Sprite | null = null;
+    let cancelled = false;
+
+    loadTexture(background)
+      .then(texture => {
+        if (cancelled) return;
+        sprite = new PIXI.Sprite(texture);
+        sprite.setSize(width, height);
+        // Underneath the grid, which may already be there
+        container.addChildAt(sprite, 0);
+      })
+      .catch(error => console.error(`Failed to load map background ${background}:`, error));
+
+    return () => {
+      cancelled = true;
+      sprite?.destroy();
+    };
+  }, [background, isReady, width, height]);
+
+  // Swap in a new drawing of the terrain, e.g. while a stroke is painted
+  const showTerrain = useCallback((grid: TerrainGrid | null) => {
+    terrainGraphicsRef.current?.destroy();
+    terrainGraphicsRef.current = null;
+    if (!grid || !terrainContainerRef.current) return;
+
+    terrainGraphicsRef.current = createTerrainGraphics(grid);
+    terrainContainerRef.current.addChild(terrainGraphicsRef.current);
+  }, []);
+
+  // Draw the painted terrain over the background
+  useEffect(() => {
+    if (!isReady) return;
+    showTerrain(terrain);
+  }, [terrain, isReady, showTerrain]);
+
+  // Draw the grid over the background in grid mode, and while roads are being laid
+  const showGrid = gridEnabled || !!roadTool;
+  useEffect(() => {
+    const container = backgroundContainerRef.current;
+    if (!isReady || !container || !showGrid) return;
+
+    const grid = new PIXI.Graphics();
+    for (let x = GRID_CELL_SIZE; x < width; x += GRID_CELL_SIZE) grid.moveTo(x, 0).lineTo(x, height);
+    for (let y = GRID_CELL_SIZE; y < height; y += GRID_CELL_SIZE) grid.moveTo(0, y).lineTo(width, y);
+    grid.stroke({ width: 1, color: GRID_COLOR, alpha: 0.3 });
+    container.addChild(grid);
+
+    return () => {
+      grid.destroy();
+    };
+  }, [showGrid, isReady, width, height]);
+
+  // Draw the roads, each cell joining up with its neighbours
+  useEffect(() => {
+    const container = roadsContainerRef.current;
+    if (!isReady || !container || roads.length === 0) return;
 
-    // Debounce rendering to avoid too frequent updates
-    const debouncedRender = debounce(renderLayers, 100);
-    debouncedRender();
+    const network = createRoadNetwork(roads);
+    container.addChild(network);
 
     return () => {
-      debouncedRender.cancel();
+      network.destroy({ children: true });
     };
-  }, [layers, isReady, onLayerSelect]);
+  }, [roads, isReady]);
 
   // Render map points (predefined locations)
   useEffect(() => {
-    if (!isReady || !appRef.current || mapPoints.length === 0) return;
+    if (!isReady || !pointsContainerRef.current || mapPoints.length === 0) return;
 
     const pointsContainer = new PIXI.Container();
-    appRef.current.stage.addChild(pointsContainer);
+    pointsContainerRef.current.addChild(pointsContainer);
+    const occupied = new Set(occupiedPointIds.split(','));
 
     // Create a simple circle for each point
     mapPoints.forEach(point => {
-      const graphics = new PIXI.Graphics();
-      
-      // Different colors based on point type
-      let color;
-      switch (point.type) {
-        case 'hospital':
-          color = 0xff0000; // Red
-          break;
-        case 'bakery':
-          color = 0xffa500; // Orange
-          break;
-        case 'school':
-          color = 0x0000ff; // Blue
-          break;
-        case 'open':
-        default:
-          color = 0x00ff00; // Green
-      }
-      
-      graphics.beginFill(color, 0.5);
-      graphics.drawCircle(0, 0, 15);
-      graphics.endFill();
-      
-      // Add a border
-      graphics.lineStyle(2, 0xffffff);
-      graphics.drawCircle(0, 0, 15);
-      
-      graphics.position.set(point.x, point.y);
-      graphics.alpha = 0.7;
-      graphics.interactive = true;
+      const graphics = createPointMarker(point, occupied.has(point.id));
+      graphics.eventMode = 'static';
       graphics.cursor = 'pointer';
-      
-      // Show point info on hover
-      if (point.name) {
-        graphics.on('mouseover', () => {
-          // Could add tooltip here in the future
-        });
-      }
-      
       pointsContainer.addChild(graphics);
     });
 
     return () => {
-      if (pointsContainer.parent) {
-        pointsContainer.parent.removeChild(pointsContainer);
+      pointsContainer.destroy({ children: true });
+    };
+  }, [mapPoints, occupiedPointIds, isReady]);
+
+  // Pointer gestures on the canvas, for mouse, pen and touch alike:
+  // - dragging an item moves it, and the drop is committed once
+  // - dragging empty space pans the camera, and a tap there is passed on to onMapTap
+  // - Shift+dragging empty space, or any drag in selection mode, draws a selection box
+  // - with a road tool on, dragging anywhere lays or erases road, as one undo step
+  // - with a terrain tool on, dragging paints or erases ground and a press fills it
+  // - two fingers pinch to zoom and pan
+  // - pressing and holding an item asks for its menu
+  useEffect(() => {
+    const app = appRef.current;
+    if (!isReady || !app || !camera) return;
+
+    // Let the stage receive pointer events everywhere so drags can't get lost
+    app.stage.eventMode = 'static';
+    app.stage.hitArea = app.screen;
+
+    const pointers = pointersRef.current;
+
+    // Empty map and map points count as the map; items and gizmo handles don't
+    const isMapTarget = (target: PIXI.Container | null) => {
+      for (let node = target; node; node = node.parent) {
+        if (node === pointsContainerRef.current) return true;
       }
+      return target === app.stage;
     };
-  }, [mapPoints, isReady]);
-
-  // Layer management functions
-  const addLayer = useCallback((newLayer: Omit<Layer, 'id'>) => {
-    const id = `layer_${Date.now()}`;
-    const layer = { ...newLayer, id };
-    
-    setLayers(prev => {
-      const updated = [...prev, layer as Layer];
-      if (onLayerUpdate) onLayerUpdate(updated);
-      return updated;
-    });
-    
-    return id;
-  }, [onLayerUpdate]);
-
-  const removeLayer = useCallback((id: string) => {
-    setLayers(prev => {
-      const updated = prev.filter(layer => layer.id !== id);
-      if (onLayerUpdate) onLayerUpdate(updated);
-      return updated;
-    });
-    
-    // Clear selection if the removed layer was selected
-    if (selectedLayerId === id) {
-      setSelectedLayerId(null);
-      if (onLayerSelect) onLayerSelect(null);
-    }
-  }, [selectedLayerId, onLayerUpdate, onLayerSelect]);
-
-  const updateLayer = useCallback((id: string, updates: Partial<Layer>) => {
-    setLayers(prev => {
-      const updated = prev.map(layer => 
-        layer.id === id ? { ...layer, ...updates } : layer
+
+    const findLayerId = (target: PIXI.Container | null) => {
+      for (const [id, entry] of layersRef.current) {
+        if (entry.sprite === target) return id;
+      }
+      return null;
+    };
+
+    // Put a dragged item back where its layer says it is
+    const cancelDrag = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      dragRef.current = null;
+      endDragPreview(drag);
+      restoreDragged(drag);
+    };
+
+    // Take the dragging look off the dragged sprites
+    const endDragPreview = (drag: DragState) => {
+      drag.sprite.cursor = 'pointer';
+      drag.sprite.alpha = drag.alpha;
+      drag.sprite.tint = 0xffffff;
+      drag.companions.forEach(companion => {
+        companion.sprite.tint = 0xffffff;
+      });
+      drag.cue?.destroy();
+    };
+
+    // Put the dragged sprites back where their layers say they are
+    const restoreDragged = (drag: DragState) => {
+      [drag.layerId, ...drag.companions.map(companion => companion.layerId)].forEach(id => {
+        const entry = layersRef.current.get(id);
+        if (entry) applyLayerToSprite(entry.sprite, entry.layer);
+      });
+      gizmoRef.current?.sync();
+    };
+
+    // Lay or erase road on the cells that are inside the world
+    const paintRoad = (tool: RoadTool, cells: RoadCell[]) => {
+      const inside = cells.filter(cell =>
+        cell.column >= 0 && cell.row >= 0 && cell.column * GRID_CELL_SIZE < width && cell.row * GRID_CELL_SIZE < height
       );
-      if (onLayerUpdate) onLayerUpdate(updated);
-      return updated;
-    });
-  }, [onLayerUpdate]);
+      const { addRoads, removeRoads } = useCityStore.getState();
+      if (tool === 'erase') removeRoads(inside);
+      else addRoads(inside);
+    };
+
+    const endRoadStroke = () => {
+      if (!roadStrokeRef.current) return;
+      roadStrokeRef.current = null;
+      useCityStore.getState().endBatch();
+    };
+
+    // Save a finished brush stroke, unless it left the terrain as it was
+    const endTerrainStroke = () => {
+      const stroke = terrainStrokeRef.current;
+      if (!stroke) return;
+      terrainStrokeRef.current = null;
+
+      const cells = stroke.cells.join('');
+      if (cells !== stroke.grid.cells) useCityStore.getState().setTerrain({ ...stroke.grid, cells });
+    };
+
+    // Drop a stroke and show the terrain as it was
+    const cancelTerrainStroke = () => {
+      if (!terrainStrokeRef.current) return;
+      terrainStrokeRef.current = null;
+      showTerrain(useCityStore.getState().terrain);
+    };
+
+    const cancelMarquee = () => {
+      marqueeRef.current?.graphics.destroy();
+      marqueeRef.current = null;
+    };
+
+    // Redraw the selection box between where it started and the pointer
+    const drawMarquee = (marquee: MarqueeState) => {
+      const from = camera.toWorld(marquee.origin);
+      const to = camera.toWorld(marquee.current);
+      marquee.graphics
+        .clear()
+        .rect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y))
+        .fill({ color: MARQUEE_COLOR, alpha: 0.1 })
+        .stroke({ width: 2 / camera.getScale(), color: MARQUEE_COLOR });
+    };
+
+    // Select every visible item the box touches
+    const finishMarquee = (marquee: MarqueeState) => {
+      const left = Math.min(marquee.origin.x, marquee.current.x);
+      const right = Math.max(marquee.origin.x, marquee.current.x);
+      const top = Math.min(marquee.origin.y, marquee.current.y);
+      const bottom = Math.max(marquee.origin.y, marquee.current.y);
+
+      const hits: string[] = [];
+      layersRef.current.forEach(({ sprite }, id) => {
+        if (!sprite.visible) return;
+        const bounds = sprite.getBounds();
+        if (bounds.x <= right && bounds.x + bounds.width >= left && bounds.y <= bottom && bounds.y + bounds.height >= top) {
+          hits.push(id);
+        }
+      });
+
+      const { selectedLayerIds } = useCityStore.getState();
+      selectLayers(marquee.additive ? [...selectedLayerIds, ...hits] : hits);
+    };
+
+    const cancelLongPress = () => {
+      if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+    };
+
+    const pinchMetrics = () => {
+      const [a, b] = [...pointers.values()];
+      return {
+        distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+        middle: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      };
+    };
+
+    const handlePointerDown = (event: PIXI.FederatedPointerEvent) => {
+      pointers.set(event.pointerId, { x: event.global.x, y: event.global.y });
+
+      // A second finger turns whatever the first was doing into a pinch
+      if (pointers.size === 2) {
+        cancelDrag();
+        cancelLongPress();
+        cancelMarquee();
+        endRoadStroke();
+        cancelTerrainStroke();
+        panRef.current = null;
+        const { distance, middle } = pinchMetrics();
+        pinchRef.current = { startDistance: distance, startZoom: camera.getZoom(), lastMiddle: middle };
+        return;
+      }
+      if (pointers.size > 2 || pinchRef.current) return;
+
+      const { roadTool, terrainTool, selectionMode } = gestureOptionsRef.current;
+      if (roadTool) {
+        const cell = toRoadCell(camera.toWorld(event.global));
+        useCityStore.getState().startBatch();
+        roadStrokeRef.current = { tool: roadTool, last: cell };
+        paintRoad(roadTool, [cell]);
+        return;
+      }
+
+      if (terrainTool) {
+        const world = camera.toWorld(event.global);
+        const grid = useCityStore.getState().terrain ?? createTerrainGrid(width, height);
+        const code = getTerrainCode(terrainTool.mode === 'erase' ? null : terrainTool.terrain);
+
+        if (terrainTool.mode === 'fill') {
+          const index = getTerrainCellIndex(grid, world);
+          if (index >= 0) useCityStore.getState().setTerrain(floodFill(grid, index, code));
+          return;
+        }
+
+        const stroke = { grid, cells: grid.cells.split(''), last: world, code, radius: BRUSH_RADII[terrainTool.size] };
+        stampBrush(stroke.cells, grid, world, stroke.radius, code);
+        terrainStrokeRef.current = stroke;
+        showTerrain({ ...grid, cells: stroke.cells.join('') });
+        return;
+      }
+
+      if (isMapTarget(event.target as PIXI.Container)) {
+        if (event.shiftKey || selectionMode) {
+          const origin = { x: event.global.x, y: event.global.y };
+          const graphics = new PIXI.Graphics();
+          overlayContainerRef.current?.addChild(graphics);
+          marqueeRef.current = { origin, current: origin, additive: event.shiftKey, graphics };
+          return;
+        }
+        panRef.current = { last: { x: event.global.x, y: event.global.y }, travelled: 0 };
+        return;
+      }
+
+      // Holding an item still opens its menu
+      const layerId = findLayerId(event.target as PIXI.Container);
+      if (!layerId) return;
+
+      const client = { x: event.client.x, y: event.client.y };
+      const timer = setTimeout(() => {
+        longPressRef.current = null;
+        cancelDrag();
+        selectLayer(layerId);
+        onLayerLongPressRef.current?.(layerId, client);
+      }, LONG_PRESS_DURATION);
+      longPressRef.current = { timer, origin: { x: event.global.x, y: event.global.y } };
+    };
+
+    const handlePointerMove = (event: PIXI.FederatedPointerEvent) => {
+      if (pointers.has(event.pointerId)) {
+        pointers.set(event.pointerId, { x: event.global.x, y: event.global.y });
+      }
+
+      const pinch = pinchRef.current;
+      if (pinch) {
+        if (pointers.size !== 2) return;
+        const { distance, middle } = pinchMetrics();
+        camera.zoomTo(pinch.startZoom * (distance / pinch.startDistance), middle);
+        camera.panBy(middle.x - pinch.lastMiddle.x, middle.y - pinch.lastMiddle.y);
+        pinch.lastMiddle = middle;
+        return;
+      }
+
+      // Moving away is a drag, not a press and hold
+      const longPress = longPressRef.current;
+      if (longPress && Math.hypot(event.global.x - longPress.origin.x, event.global.y - longPress.origin.y) > PAN_THRESHOLD) {
+        cancelLongPress();
+      }
+
+      const stroke = roadStrokeRef.current;
+      if (stroke) {
+        const cell = toRoadCell(camera.toWorld(event.global));
+        if (cell.column === stroke.last.column && cell.row === stroke.last.row) return;
+        paintRoad(stroke.tool, cellsBetween(stroke.last, cell));
+        stroke.last = cell;
+        return;
+      }
+
+      const terrainStroke = terrainStrokeRef.current;
+      if (terrainStroke) {
+        const world = camera.toWorld(event.global);
+        stampLine(terrainStroke.cells, terrainStroke.grid, terrainStroke.last, world, terrainStroke.radius, terrainStroke.code);
+        terrainStroke.last = world;
+        showTerrain({ ...terrainStroke.grid, cells: terrainStroke.cells.join('') });
+        return;
+      }
+
+      const marquee = marqueeRef.current;
+      if (marquee) {
+        marquee.current = { x: event.global.x, y: event.global.y };
+        drawMarquee(marquee);
+        return;
+      }
+
+      const pan = panRef.current;
+      if (pan) {
+        const dx = event.global.x - pan.last.x;
+        const dy = event.global.y - pan.last.y;
+        pan.travelled += Math.hypot(dx, dy);
+        pan.last = { x: event.global.x, y: event.global.y };
+        if (pan.travelled > PAN_THRESHOLD) camera.panBy(dx, dy);
+        return;
+      }
+
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      const { assets, gridEnabled, onLayerDragMove } = gestureOptionsRef.current;
+      const world = camera.toWorld(event.global);
+      let next = clampToWorld(
+        { x: world.x - drag.offset.x, y: world.y - drag.offset.y },
+        width,
+        height
+      );
+
+      // Snap onto a nearby map point, or flag the spot when the item can't go there.
+      // Several items moving together don't snap to points.
+      const { layers, mapPoints, findOverlap } = useCityStore.getState();
+      const size = { width: drag.sprite.texture.width * drag.scale, height: drag.sprite.texture.height * drag.scale };
+      const type = layersRef.current.get(drag.layerId)?.layer.type ?? '';
+      const anchor = findAsset(assets, type)?.anchor ?? { x: 0.5, y: 0.5 };
+      const socket = drag.companions.length > 0 ? null : findSocket(
+        { x: next.x + size.width * anchor.x, y: next.y + size.height * anchor.y },
+        type,
+        mapPoints,
+        layers,
+        drag.layerId
+      );
+      if (socket?.allowed) next = positionOnPoint(socket.point, size, anchor);
+      // Away from map points, grid mode keeps items on the cells
+      else if (gridEnabled) next = snapToGrid(next);
+      drag.pointId = socket?.allowed ? socket.point.id : undefined;
 
-  // Export image function (placeholder for now)
-  const exportImage = useCallback(() => {
-    if (!appRef.current) return null;
-    return appRef.current.renderer.extract.canvas().toDataURL('image/png');
+      // Grid mode also refuses spots where a solid item would overlap another
+      const companionPosition = (companion: DragCompanion) => ({
+        x: companion.start.x + next.x - drag.start.x,
+        y: companion.start.y + next.y - drag.start.y,
+      });
+      const moved = [drag.layerId, ...drag.companions.map(companion => companion.layerId)].flatMap((id, i) => {
+        const layer = layersRef.current.get(id)?.layer;
+        return layer ? [{ ...layer, position: i === 0 ? next : companionPosition(drag.companions[i - 1]) }] : [];
+      });
+      const overlap = findOverlap(moved);
+      drag.blocked = (!!socket && !socket.allowed) || !!overlap;
+
+      drag.cue?.destroy();
+      drag.cue = socket ? createSocketCue(socket.point, socket.allowed) : null;
+      if (drag.cue) overlayContainerRef.current?.addChild(drag.cue);
+      const tint = drag.blocked ? BLOCKED_TINT : 0xffffff;
+      drag.sprite.tint = tint;
+      drag.companions.forEach(companion => {
+        companion.sprite.tint = tint;
+      });
+
+      // Live preview: move the sprites directly without touching layer state
+      placeSprite(drag.sprite, next, drag.scale);
+      drag.companions.forEach(companion => {
+        placeSprite(companion.sprite, companionPosition(companion), companion.scale);
+      });
+      gizmoRef.current?.sync();
+      drag.position = next;
+      drag.moved = drag.moved || next.x !== drag.start.x || next.y !== drag.start.y;
+
+      // Fade the sprite while it hovers a drop target outside the canvas
+      const overTarget = onLayerDragMove?.(drag.layerId, { x: event.client.x, y: event.client.y }) ?? false;
+      drag.sprite.alpha = overTarget ? drag.alpha / 2 : drag.alpha;
+    };
+
+    const handlePointerUp = (event: PIXI.FederatedPointerEvent) => {
+      pointers.delete(event.pointerId);
+      cancelLongPress();
+
+      // A pinch ends once every finger has lifted, so the last one doesn't pan or tap
+      if (pinchRef.current) {
+        if (pointers.size === 0) pinchRef.current = null;
+        return;
+      }
+
+      if (roadStrokeRef.current) {
+        endRoadStroke();
+        return;
+      }
+
+      if (terrainStrokeRef.current) {
+        endTerrainStroke();
+        return;
+      }
+
+      const marquee = marqueeRef.current;
+      if (marquee) {
+        cancelMarquee();
+        const size = Math.hypot(marquee.current.x - marquee.origin.x, marquee.current.y - marquee.origin.y);
+        // Too small to be a box: a plain tap in selection mode still taps the map
+        if (size > PAN_THRESHOLD) finishMarquee(marquee);
+        else if (!marquee.additive) onMapTapRef.current?.(camera.toWorld(event.global));
+        return;
+      }
+
+      const pan = panRef.current;
+      if (pan) {
+        panRef.current = null;
+        // Only a tap that didn't pan is a tap on the map
+        if (pan.travelled <= PAN_THRESHOLD) onMapTapRef.current?.(camera.toWorld(event.global));
+        return;
+      }
+
+      const drag = dragRef.current;
+      if (!drag) return;
+
+      dragRef.current = null;
+      endDragPreview(drag);
+      if (!drag.moved) return;
+
+      if (gestureOptionsRef.current.onLayerDrop?.(drag.layerId, { x: event.client.x, y: event.client.y })) return;
+
+      // Items dropped where they can't go return to where they were
+      if (drag.blocked) {
+        restoreDragged(drag);
+        return;
+      }
+
+      if (drag.companions.length === 0) {
+        moveLayer(drag.layerId, drag.position, drag.pointId);
+        return;
+      }
+
+      // Items moved together leave their map points, as one undo step
+      const delta = { x: drag.position.x - drag.start.x, y: drag.position.y - drag.start.y };
+      moveLayers([
+        { id: drag.layerId, position: drag.position },
+        ...drag.companions.map(companion => ({
+          id: companion.layerId,
+          position: { x: companion.start.x + delta.x, y: companion.start.y + delta.y },
+        })),
+      ]);
+    };
+
+    app.stage.on('pointerdown', handlePointerDown);
+    app.stage.on('globalpointermove', handlePointerMove);
+    app.stage.on('pointerup', handlePointerUp);
+    app.stage.on('pointerupoutside', handlePointerUp);
+
+    return () => {
+      cancelLongPress();
+      cancelMarquee();
+      endRoadStroke();
+      cancelTerrainStroke();
+      pointers.clear();
+      panRef.current = null;
+      pinchRef.current = null;
+      app.stage.off('pointerdown', handlePointerDown);
+      app.stage.off('globalpointermove', handlePointerMove);
+      app.stage.off('pointerup', handlePointerUp);
+      app.stage.off('pointerupoutside', handlePointerUp);
+    };
+  }, [isReady, camera, width, height, showTerrain, moveLayer, moveLayers, selectLayer, selectLayers]);
+
+  // Render the city off-screen at export resolution
+  const exportImage = useCallback((options: ExportOptions) => {
+    return renderCityImage({ layers, mapPoints, roads, terrain, selectedLayerId, backgroundColor, background }, options);
+  }, [layers, mapPoints, roads, terrain, selectedLayerId, backgroundColor, background]);
+
+  // Page coordinates to world coordinates, through the camera
+  const clientToWorld = useCallback((client: { x: number; y: number }) => {
+    const host = canvasRef.current;
+    if (!host || !cameraRef.current) return null;
+
+    const rect = host.getBoundingClientRect();
+    const screen = { x: client.x - rect.left, y: client.y - rect.top };
+    if (screen.x < 0 || screen.y < 0 || screen.x > rect.width || screen.y > rect.height) return null;
+    return cameraRef.current.toWorld(screen);
   }, []);
 
+  const getViewCenter = useCallback(() => {
+    const view = cameraRef.current?.getViewRect() ?? { x: 0, y: 0, width, height };
+    return { x: view.x + view.width / 2, y: view.y + view.height / 2 };
+  }, [width, height]);
+
+  useImperativeHandle(
+    ref,
+    () => ({ exportImage, clientToWorld, getViewCenter }),
+    [exportImage, clientToWorld, getViewCenter]
+  );
+
   return (
-    <div className="canvas-container" style={{ maxWidth: '100%', margin: '0 auto' }}>
-      <div 
-        ref={canvasRef} 
-        className="pixi-canvas relative w-full"
-        style={{ 
-          aspectRatio: `${width}/${height}`,
-          minWidth: '800px',
-          backgroundColor: '#c2e3f8',
-          overflow: 'hidden',
-          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
-          borderRadius: '8px',
-        }}
-      />
+    <div
+      className="canvas-container"
+      style={{ maxWidth: '100%', margin: '0 auto' }}
+    >
+      <div className="relative">
+        <div 
+          ref={canvasRef} 
+          className="pixi-canvas relative w-full"
+          style={{ 
+            aspectRatio: `${width}/${height}`,
+            minWidth: '800px',
+            backgroundColor: '#c2e3f8',
+            overflow: 'hidden',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+            borderRadius: '8px',
+            // The canvas handles touch gestures itself
+            touchAction: 'none',
+          }}
+        />
+
+        {camera && (
+          <CameraControls
+            camera={camera}
+            world={{ width, height }}
+            background={background}
+            items={layers.map(layer => layer.position)}
+          />
+        )}
+      </div>
       {/* Debug info - can be removed in production */}
-      {process.env.NODE_ENV === 'development' && (
+      {import.meta.env.DEV && camera && (
         <div className="text-xs text-gray-500 mt-1">
-          Canvas: {width}x{height} | Scale: {scale.toFixed(2)}
+          Canvas: {width}x{height} | Scale: {camera.getScale().toFixed(2)}
         </div>
       )}
     </div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBriefcase, faHeartPulse, faUsers, type IconDefinition } from '@fortawesome/free-solid-svg-icons';
+
+import { getMood, type CityStats } from '../utils/cityStats';
+import { MOOD_COLORS, MOOD_ICONS } from '../utils/statsIcons';
+
+interface CityStatsStripProps {
+  stats: CityStats;
+}
+
+interface StatProps {
+  icon: IconDefinition;
+  iconClassName: string;
+  label: string;
+  value: string;
+}
+
+// One big icon and number, with the label for screen readers and on hover
+const Stat: React.FC<StatProps> = ({ icon, iconClassName, label, value }) => (
+  <div className="flex items-center gap-2" title={label}>
+    <FontAwesomeIcon icon={icon} className={iconClassName} size="lg" />
+    <span className="font-bold text-lg">{value}</span>
+    <span className="sr-only">{label}</span>
+  </div>
+);
+
+// How the city is doing: people, jobs, hospitals and happiness, as icons and numbers
+const CityStatsStrip: React.FC<CityStatsStripProps> = ({ stats }) => {
+  const mood = stats.happiness === null ? null : getMood(stats.happiness);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md px-4 py-2 mb-4 flex flex-wrap items-center gap-6" aria-label="City stats">
+      <Stat icon={faUsers} iconClassName="text-blue-500" label="People" value={String(stats.population)} />
+      <Stat icon={faBriefcase} iconClassName="text-amber-700" label="Jobs" value={String(stats.jobs)} />
+      <Stat
+        icon={faHeartPulse}
+        iconClassName="text-red-500"
+        label="Homes near a hospital"
+        value={`${Math.round(stats.healthCoverage * 100)}%`}
+      />
+
+      {/* Happiness as a face, so it reads before numbers do */}
+      <div className="flex items-center gap-2" title="Happiness">
+        <FontAwesomeIcon
+          icon={MOOD_ICONS[mood ?? 'okay']}
+          className={mood ? MOOD_COLORS[mood] : 'text-gray-300'}
+          size="2x"
+        />
+        <span className="font-bold text-lg">{stats.happiness ?? '–'}</span>
+        <span className="sr-only">
+          {stats.happiness === null ? 'Happiness: build a house to find out' : `Happiness: ${stats.happiness} out of 100`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default CityStatsStrip;
@@ -0,0 +1,159 @@
+import React, { useState, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faDownload,
+  faHome,
+  faSpinner,
+  faMapMarkerAlt,
+  faVectorSquare,
+  faFont,
+  faExclamationTriangle,
+} from '@fortawesome/free-solid-svg-icons';
+
+import CityCanvas, { type CityCanvasHandle } from './CityCanvas';
+import useCurrentCity from '../hooks/useCurrentCity';
+import { useCityStore } from '../store/cityStore';
+import { EXPORT_SIZES, downloadBlob, type ExportOptions, type ExportSize } from '../utils/pngExporter';
+import { isTerrainPainted } from '../utils/terrain';
+
+// Turn a city name into a safe file name
+const toFileName = (name: string | null) => {
+  const slug = (name || 'my-city')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `maetopia-${slug || 'city'}.png`;
+};
+
+// Export screen: previews the city and downloads it as a PNG
+const ExportPicture: React.FC = () => {
+  const canvasRef = useRef<CityCanvasHandle>(null);
+  const isLoaded = useCurrentCity();
+  // Roads and painted ground make a picture too, even with nothing placed
+  const isEmpty = useCityStore(
+    state => state.layers.length === 0 && state.roads.length === 0 && !isTerrainPainted(state.terrain)
+  );
+  const projectName = useCityStore(state => state.projectName);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [hasError, setHasError] = useState<boolean>(false);
+  const [options, setOptions] = useState<ExportOptions>({
+    size: 'native',
+    showMapPoints: false,
+    showSelection: false,
+    showCaption: true,
+  });
+
+  // Flip one of the on/off options
+  const toggleOption = (key: 'showMapPoints' | 'showSelection' | 'showCaption') => {
+    setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  // Render at full resolution and download
+  const handleDownload = async () => {
+    if (!canvasRef.current) return;
+
+    setIsExporting(true);
+    setHasError(false);
+    try {
+      const blob = await canvasRef.current.exportImage(options);
+      downloadBlob(blob, toFileName(projectName));
+    } catch (error) {
+      console.error('Failed to export picture:', error);
+      setHasError(true);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="flex items-center justify-center h-64 text-blue-600">
+        <FontAwesomeIcon icon={faSpinner} spin size="2x" />
+      </div>
+    );
+  }
+
+  // Nothing has been built yet
+  if (isEmpty) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4 text-gray-500">
+        <p className="text-xl">Build a city first!</p>
+        <Link to="/build" className="icon-button" aria-label="Go build">
+          <FontAwesomeIcon icon={faHome} size="lg" />
+        </Link>
+      </div>
+    );
+  }
+
+  const toggles = [
+    { key: 'showMapPoints' as const, icon: faMapMarkerAlt, label: 'Map spots' },
+    { key: 'showSelection' as const, icon: faVectorSquare, label: 'Selection' },
+    { key: 'showCaption' as const, icon: faFont, label: 'Made in Maetopia' },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h2 className="text-2xl font-bold text-blue-600 text-center">Export Picture</h2>
+
+      {/* Preview */}
+      <div className="pointer-events-none">
+        <CityCanvas ref={canvasRef} />
+      </div>
+
+      {/* Options */}
+      <div className="bg-white rounded-lg shadow-md p-4 flex flex-wrap items-center justify-center gap-4">
+        <div className="flex gap-2">
+          {(Object.keys(EXPORT_SIZES) as ExportSize[]).map(size => (
+            <button
+              key={size}
+              className={`border-2 ${options.size === size ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+              onClick={() => setOptions(prev => ({ ...prev, size }))}
+            >
+              <div className="font-bold">{EXPORT_SIZES[size].label}</div>
+              <div className="text-xs text-gray-500">
+                {EXPORT_SIZES[size].width}×{EXPORT_SIZES[size].height}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="border-l border-gray-300 self-stretch" />
+
+        {toggles.map(toggle => (
+          <div key={toggle.key} className="group relative">
+            <button
+              className={`icon-button ${options[toggle.key] ? 'bg-blue-100 ring-2 ring-blue-500' : 'opacity-50'}`}
+              onClick={() => toggleOption(toggle.key)}
+              aria-pressed={options[toggle.key]}
+              aria-label={toggle.label}
+            >
+              <FontAwesomeIcon icon={toggle.icon} size="lg" />
+            </button>
+            <span className="tooltip">{toggle.label}</span>
+          </div>
+        ))}
+
+        <div className="border-l border-gray-300 self-stretch" />
+
+        <button
+          className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 text-xl flex items-center disabled:opacity-50"
+          onClick={handleDownload}
+          disabled={isExporting}
+        >
+          <FontAwesomeIcon icon={isExporting ? faSpinner : faDownload} spin={isExporting} className="mr-2" />
+          Download
+        </button>
+      </div>
+
+      {hasError && (
+        <p className="text-red-600 flex items-center justify-center gap-2">
+          <FontAwesomeIcon icon={faExclamationTriangle} />
+          The picture didn't work, please try again
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPicture;
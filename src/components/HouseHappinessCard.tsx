@@ -0,0 +1,48 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faXmark } from '@fortawesome/free-solid-svg-icons';
+
+import { describeFactor, getMood, type HouseStats } from '../utils/cityStats';
+import { HAPPINESS_FACTOR_ICONS, MOOD_COLORS, MOOD_ICONS } from '../utils/statsIcons';
+
+interface HouseHappinessCardProps {
+  house: HouseStats;
+  // Where the pointer is, in page coordinates
+  position: { x: number; y: number };
+}
+
+// Distance from the pointer to the card, in pixels
+const POINTER_OFFSET = 16;
+
+// What makes a house happy or not, shown while it's hovered on the map
+const HouseHappinessCard: React.FC<HouseHappinessCardProps> = ({ house, position }) => {
+  const mood = getMood(house.happiness);
+
+  return (
+    <div
+      className="fixed z-40 bg-white rounded-lg shadow-lg p-3 pointer-events-none"
+      style={{ left: position.x + POINTER_OFFSET, top: position.y + POINTER_OFFSET }}
+      role="tooltip"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <FontAwesomeIcon icon={MOOD_ICONS[mood]} className={MOOD_COLORS[mood]} size="2x" />
+        <span className="font-bold">{house.happiness}</span>
+        <span className="text-sm text-gray-500">· {house.residents} people</span>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {house.factors.map(factor => (
+          <li key={factor.kind} className="flex items-center gap-2">
+            <FontAwesomeIcon icon={HAPPINESS_FACTOR_ICONS[factor.kind]} className="w-4 text-gray-600" />
+            <FontAwesomeIcon
+              icon={factor.count > 0 ? faCheck : faXmark}
+              className={factor.count > 0 ? 'text-green-500' : 'text-red-400'}
+            />
+            <span>{describeFactor(factor)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HouseHappinessCard;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faHome, faMapMarkerAlt, faCoins, faUserShield } from '@fortawesome/free-solid-svg-icons';
+
+import { persistCurrentCity } from '../hooks/useCurrentCity';
+import { useCityStore } from '../store/cityStore';
+import type { MapTemplate } from '../types/mapTemplate';
+import { MAP_TEMPLATES } from '../utils/mapTemplates';
+
+// New City screen: pick the map the city is built on
+const NewCity: React.FC = () => {
+  const navigate = useNavigate();
+
+  // Grown-up setting: a starting budget that replaces the map's, or no limit at all
+  const [budgetOverride, setBudgetOverride] = useState<string>('');
+  const [isUnlimited, setIsUnlimited] = useState<boolean>(false);
+
+  const getStartingBudget = (template: MapTemplate) => {
+    if (isUnlimited) return null;
+    const override = parseInt(budgetOverride, 10);
+    return Number.isFinite(override) && override >= 0 ? override : template.budget;
+  };
+
+  // Start a fresh working copy on the chosen map, then open the builder
+  const handlePick = (template: MapTemplate) => {
+    useCityStore.getState().loadCity({
+      layers: [],
+      mapPoints: template.points,
+      storageItems: [],
+      roads: [],
+      terrain: null,
+      mapTemplateId: template.id,
+      budget: getStartingBudget(template),
+      projectId: null,
+      name: null,
+      updatedAt: Date.now(),
+    });
+    persistCurrentCity();
+    navigate('/build');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8">
+      <h2 className="text-2xl font-bold text-blue-600 mb-6 text-center">Pick a Map</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        {MAP_TEMPLATES.map(template => (
+          <button
+            key={template.id}
+            className="bg-white rounded-lg shadow-md p-3 flex flex-col gap-2 text-left hover:ring-2 hover:ring-blue-500"
+            onClick={() => handlePick(template)}
+          >
+            <img
+              src={template.thumbnail}
+              alt=""
+              className="w-full aspect-video object-cover rounded-md"
+            />
+            <span className="font-bold">{template.title}</span>
+            <span className="text-sm text-gray-500 flex items-center gap-1">
+              <FontAwesomeIcon icon={faMapMarkerAlt} />
+              {template.points.length > 0 ? `${template.points.length} building spots` : 'Build anywhere'}
+            </span>
+            <span className="text-sm text-amber-600 flex items-center gap-1">
+              <FontAwesomeIcon icon={faCoins} />
+              {getStartingBudget(template) ?? '∞'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Grown-up settings */}
+      <details className="mt-6 bg-white rounded-lg shadow-md p-4">
+        <summary className="cursor-pointer text-sm text-gray-600 flex items-center gap-2">
+          <FontAwesomeIcon icon={faUserShield} />
+          Grown-up settings
+        </summary>
+        <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Starting coins
+            <input
+              type="number"
+              min={0}
+              className="w-28 border-2 border-blue-200 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+              placeholder="Map default"
+              value={budgetOverride}
+              onChange={(e) => setBudgetOverride(e.target.value)}
+              disabled={isUnlimited}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={isUnlimited}
+              onChange={(e) => setIsUnlimited(e.target.checked)}
+            />
+            No limit
+          </label>
+        </div>
+      </details>
+
+      <div className="flex justify-center mt-6">
+        <Link to="/" className="icon-button" aria-label="Back home">
+          <FontAwesomeIcon icon={faHome} size="lg" />
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default NewCity;
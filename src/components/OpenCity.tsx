@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFolderOpen, faTrash, faSpinner, faCity, faPen, faCheck } from '@fortawesome/free-solid-svg-icons';
+
+import type { CityProject } from '../types/project';
+import { persistCurrentCity } from '../hooks/useCurrentCity';
+import { useCityStore } from '../store/cityStore';
+import { getProjectRepository } from '../utils/projectRepository';
+
+// Open screen: lists saved cities and loads one back into the builder
+const OpenCity: React.FC = () => {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<CityProject[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState<string>('');
+
+  // Load the saved cities
+  useEffect(() => {
+    getProjectRepository().list()
+      .then(setProjects)
+      .catch(error => console.error('Failed to list cities:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Make the project the builder's working copy, then open the builder
+  const handleOpen = (project: CityProject) => {
+    useCityStore.getState().loadCity({
+      layers: project.layers,
+      mapPoints: project.mapPoints,
+      storageItems: project.storageItems,
+      roads: project.roads,
+      terrain: project.terrain,
+      mapTemplateId: project.mapTemplateId,
+      budget: project.budget,
+      projectId: project.id,
+      name: project.name,
+      updatedAt: Date.now(),
+    });
+    persistCurrentCity();
+    navigate('/build');
+  };
+
+  // Delete a saved city
+  const handleDelete = async (id: string) => {
+    try {
+      await getProjectRepository().delete(id);
+      setProjects(prev => prev.filter(project => project.id !== id));
+    } catch (error) {
+      console.error(`Failed to delete city ${id}:`, error);
+    }
+  };
+
+  // Start editing a city's name
+  const startRename = (project: CityProject) => {
+    setRenamingId(project.id);
+    setNewName(project.name);
+  };
+
+  // Store the edited name
+  const handleRename = async (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    setRenamingId(null);
+
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      const renamed = await getProjectRepository().rename(id, name);
+      if (renamed) {
+        setProjects(prev => prev.map(project => (project.id === id ? renamed : project)));
+      }
+    } catch (error) {
+      console.error(`Failed to rename city ${id}:`, error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64 text-blue-600">
+        <FontAwesomeIcon icon={faSpinner} spin size="2x" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8">
+      <h2 className="text-2xl font-bold text-blue-600 mb-6 text-center">Open City</h2>
+
+      {/* Empty state */}
+      {projects.length === 0 && (
+        <div className="flex flex-col items-center gap-2 text-gray-400 italic">
+          <FontAwesomeIcon icon={faCity} size="3x" />
+          <p>No saved cities yet</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        {projects.map(project => (
+          <div key={project.id} className="bg-white rounded-lg shadow-md p-4 flex flex-col gap-3">
+            {renamingId === project.id ? (
+              <form className="flex items-center gap-2" onSubmit={(e) => handleRename(e, project.id)}>
+                <input
+                  className="flex-1 min-w-0 border-2 border-blue-200 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  maxLength={40}
+                  autoFocus
+                  aria-label="City name"
+                />
+                <button type="submit" className="text-green-600 hover:text-green-700" aria-label="Save name">
+                  <FontAwesomeIcon icon={faCheck} />
+                </button>
+              </form>
+            ) : (
+              <div className="flex items-center gap-2">
+                <FontAwesomeIcon icon={faCity} className="text-blue-600" />
+                <h3 className="font-bold flex-1 truncate">{project.name}</h3>
+                <button
+                  className="text-gray-500 hover:text-blue-600 px-2"
+                  onClick={() => startRename(project)}
+                  aria-label={`Rename ${project.name}`}
+                >
+                  <FontAwesomeIcon icon={faPen} size="sm" />
+                </button>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500">
+              {project.layers.length} items · {new Date(project.updatedAt).toLocaleDateString()}
+            </p>
+
+            <div className="flex justify-between">
+              <button
+                className="bg-blue-500 hover:bg-blue-600 text-white flex items-center"
+                onClick={() => handleOpen(project)}
+              >
+                <FontAwesomeIcon icon={faFolderOpen} className="mr-2" />
+                Open
+              </button>
+
+              <button
+                className="text-gray-500 hover:text-red-600"
+                onClick={() => handleDelete(project.id)}
+                aria-label={`Delete ${project.name}`}
+              >
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OpenCity;
@@ -0,0 +1,68 @@
+import React, { useEffect } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import type { IconDefinition } from '@fortawesome/free-solid-svg-icons';
+
+export interface RadialMenuAction {
+  label: string;
+  icon: IconDefinition;
+  onSelect: () => void;
+  disabled?: boolean;
+  // Tailwind colour classes for the button
+  className?: string;
+}
+
+interface RadialMenuProps {
+  // Centre of the menu, in page coordinates
+  position: { x: number; y: number };
+  actions: RadialMenuAction[];
+  onClose: () => void;
+}
+
+// Distance from the centre to each button, in pixels
+const MENU_RADIUS = 64;
+
+// Finger-sized buttons in a ring around a point, closed by tapping anywhere else
+const RadialMenu: React.FC<RadialMenuProps> = ({ position, actions, onClose }) => {
+  // Escape closes the menu too
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50" onPointerDown={onClose}>
+      <div
+        role="menu"
+        className="absolute"
+        style={{ left: position.x, top: position.y }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {actions.map((action, i) => {
+          // Spread the buttons evenly, starting straight above the centre
+          const angle = -Math.PI / 2 + (i / actions.length) * Math.PI * 2;
+          return (
+            <button
+              key={action.label}
+              role="menuitem"
+              className={`absolute w-14 h-14 -ml-7 -mt-7 rounded-full bg-white shadow-lg flex items-center justify-center disabled:opacity-40 ${action.className ?? 'text-blue-600'}`}
+              style={{ left: Math.cos(angle) * MENU_RADIUS, top: Math.sin(angle) * MENU_RADIUS }}
+              onClick={() => {
+                action.onSelect();
+                onClose();
+              }}
+              disabled={action.disabled}
+              aria-label={action.label}
+            >
+              <FontAwesomeIcon icon={action.icon} size="lg" />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RadialMenu;
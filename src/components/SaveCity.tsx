@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSave, faHome, faSpinner, faExclamationTriangle } from '@fortawesome/free-solid-svg-icons';
+
+import { useShallow } from 'zustand/react/shallow';
+
+import useCurrentCity, { persistCurrentCity } from '../hooks/useCurrentCity';
+import { useCityStore } from '../store/cityStore';
+import type { CityProject } from '../types/project';
+import { createId } from '../utils/ids';
+import { getProjectRepository } from '../utils/projectRepository';
+import { encodeTerrain } from '../utils/terrain';
+
+const DEFAULT_CITY_NAME = 'My City';
+
+// Save screen: stores the city open in the builder under a name
+const SaveCity: React.FC = () => {
+  const navigate = useNavigate();
+  const isLoaded = useCurrentCity();
+  const { layers, mapPoints, storageItems, roads, terrain, mapTemplateId, budget, projectId, projectName, setProject } = useCityStore(
+    useShallow(state => ({
+      layers: state.layers,
+      mapPoints: state.mapPoints,
+      storageItems: state.storageItems,
+      roads: state.roads,
+      terrain: state.terrain,
+      mapTemplateId: state.mapTemplateId,
+      budget: state.budget,
+      projectId: state.projectId,
+      projectName: state.projectName,
+      setProject: state.setProject,
+    }))
+  );
+  const [name, setName] = useState<string>(DEFAULT_CITY_NAME);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [hasError, setHasError] = useState<boolean>(false);
+
+  // Start from the name the city was saved under before
+  useEffect(() => {
+    if (projectName) setName(projectName);
+  }, [projectName]);
+
+  // Save as a project, then go back to building
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const project: CityProject = {
+      id: projectId ?? createId('project'),
+      name: name.trim() || DEFAULT_CITY_NAME,
+      layers,
+      mapPoints,
+      storageItems,
+      roads,
+      terrain: terrain && encodeTerrain(terrain),
+      mapTemplateId,
+      budget,
+      updatedAt: Date.now(),
+    };
+
+    setIsSaving(true);
+    setHasError(false);
+    try {
+      const saved = await getProjectRepository().save(project);
+      // The builder now works on the saved project
+      setProject(saved.id, saved.name);
+      persistCurrentCity();
+      navigate('/build');
+    } catch (error) {
+      console.error('Failed to save city:', error);
+      setHasError(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="flex items-center justify-center h-64 text-blue-600">
+        <FontAwesomeIcon icon={faSpinner} spin size="2x" />
+      </div>
+    );
+  }
+
+  // Nothing has been built yet
+  if (layers.length === 0 && storageItems.length === 0 && roads.length === 0 && !terrain) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4 text-gray-500">
+        <p className="text-xl">Build a city first!</p>
+        <Link to="/build" className="icon-button" aria-label="Go build">
+          <FontAwesomeIcon icon={faHome} size="lg" />
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="max-w-md mx-auto mt-12 bg-white rounded-lg shadow-md p-6 flex flex-col items-center gap-4"
+      onSubmit={handleSave}
+    >
+      <h2 className="text-2xl font-bold text-blue-600">Save City</h2>
+
+      <input
+        className="w-full border-2 border-blue-200 rounded-lg px-4 py-3 text-xl text-center focus:outline-none focus:border-blue-500"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={40}
+        aria-label="City name"
+      />
+
+      <p className="text-sm text-gray-500">{layers.length} items</p>
+
+      <button
+        type="submit"
+        className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 text-xl flex items-center disabled:opacity-50"
+        disabled={isSaving}
+      >
+        <FontAwesomeIcon icon={isSaving ? faSpinner : faSave} spin={isSaving} className="mr-2" />
+        Save
+      </button>
+
+      {hasError && (
+        <p className="text-red-600 flex items-center gap-2">
+          <FontAwesomeIcon icon={faExclamationTriangle} />
+          Saving didn't work, please try again
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default SaveCity;
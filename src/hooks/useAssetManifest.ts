@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+import type { AssetDefinition, Material } from '../types/asset';
+import { loadAssetManifest } from '../utils/assetManifest';
+
+/**
+ * Load the asset catalogue and its materials. `error` holds the validation
+ * message when the manifest is broken, so the toolbar can say what is wrong.
+ */
+const useAssetManifest = () => {
+  const [assets, setAssets] = useState<AssetDefinition[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadAssetManifest()
+      .then(manifest => {
+        if (cancelled) return;
+        setAssets(manifest.assets);
+        setMaterials(manifest.materials);
+      })
+      .catch(loadError => {
+        console.error('Failed to load asset manifest:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { assets, materials, isLoading, error };
+};
+
+export default useAssetManifest;
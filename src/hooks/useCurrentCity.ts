@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+
+import { selectCurrentCity, useCityStore } from '../store/cityStore';
+import { loadCurrentCity, saveCurrentCity } from '../utils/projectStorage';
+
+/**
+ * Write the store's city to IndexedDB as the working copy
+ */
+export const persistCurrentCity = () => {
+  const state = useCityStore.getState();
+  // Never overwrite the stored city before it has been loaded
+  if (!state.isLoaded) return;
+
+  saveCurrentCity(selectCurrentCity(state))
+    .catch(error => console.error('Failed to save current city:', error));
+};
+
+/**
+ * Make sure the store holds the working copy of the city, loading it from
+ * IndexedDB the first time any screen needs it. Returns whether it is loaded.
+ */
+const useCurrentCity = () => {
+  const isLoaded = useCityStore(state => state.isLoaded);
+
+  useEffect(() => {
+    if (isLoaded) return;
+
+    let cancelled = false;
+
+    loadCurrentCity()
+      .catch(error => {
+        console.error('Failed to load current city:', error);
+        return null;
+      })
+      .then(city => {
+        if (!cancelled) useCityStore.getState().loadCity(city);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded]);
+
+  return isLoaded;
+};
+
+export default useCurrentCity;
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+
+// Each returns whether it did anything. Keys that did nothing are left to the
+// browser, e.g. Ctrl+A still selects the page's text when the map is empty.
+export interface KeyboardShortcuts {
+  undo: () => boolean;
+  redo: () => boolean;
+  // Delete or Backspace
+  deleteSelected: () => boolean;
+  copy: () => boolean;
+  paste: () => boolean;
+  duplicate: () => boolean;
+  group: () => boolean;
+  ungroup: () => boolean;
+  selectAll: () => boolean;
+  // Number keys 1–9, as a 0-based index
+  pickAsset: (index: number) => void;
+}
+
+// Typing in a form field shouldn't trigger shortcuts
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Page-wide builder shortcuts: Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) to undo and redo,
+ * Ctrl+C / Ctrl+V / Ctrl+D to copy, paste and duplicate, Ctrl+G / Ctrl+Shift+G to
+ * group and ungroup, Ctrl+A to select everything, Delete to remove the selected
+ * items and number keys to pick toolbar items
+ */
+const useKeyboardShortcuts = (shortcuts: KeyboardShortcuts) => {
+  // Always call the latest handlers without re-adding the listener
+  const shortcutsRef = useRef(shortcuts);
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return;
+      const { undo, redo, deleteSelected, copy, paste, duplicate, group, ungroup, selectAll, pickAsset } =
+        shortcutsRef.current;
+
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        let handled = false;
+        if (key === 'z' && !e.shiftKey) handled = undo();
+        else if (key === 'y' || (key === 'z' && e.shiftKey)) handled = redo();
+        else if (key === 'c') handled = copy();
+        else if (key === 'v') handled = paste();
+        else if (key === 'd') handled = duplicate();
+        else if (key === 'g') handled = (e.shiftKey ? ungroup : group)();
+        else if (key === 'a') handled = selectAll();
+        if (handled) e.preventDefault();
+        return;
+      }
+      if (e.altKey) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        if (deleteSelected()) e.preventDefault();
+      } else if (/^[1-9]$/.test(e.key)) {
+        pickAsset(Number(e.key) - 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
+
+export default useKeyboardShortcuts;
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { UploadedAsset } from '../types/upload';
+import { storeUpload } from '../utils/uploadAssets';
+import { getUploadRepository } from '../utils/uploadRepository';
+import { prepareUpload } from '../utils/uploadSanitizer';
+
+/**
+ * The player's uploaded drawings, with preview image URLs for the toolbar.
+ * `addUpload` checks and stores a file; `error` says why the last one was refused.
+ */
+const useUploads = () => {
+  const [uploads, setUploads] = useState<UploadedAsset[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Object URLs made for previews, revoked when the toolbar goes away
+  const previewUrlsRef = useRef<string[]>([]);
+
+  const addPreview = useCallback(async (uploadId: string) => {
+    const image = await getUploadRepository().getImage(uploadId);
+    if (!image) return;
+
+    const url = URL.createObjectURL(image);
+    previewUrlsRef.current.push(url);
+    setPreviews(current => ({ ...current, [uploadId]: url }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getUploadRepository()
+      .list()
+      .then(list => {
+        if (cancelled) return;
+        setUploads(list);
+        list.forEach(upload => {
+          addPreview(upload.id).catch(previewError => console.error('Failed to load drawing preview:', previewError));
+        });
+      })
+      .catch(loadError => console.error('Failed to load drawings:', loadError));
+
+    return () => {
+      cancelled = true;
+      previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+      previewUrlsRef.current = [];
+    };
+  }, [addPreview]);
+
+  const addUpload = useCallback(async (file: File): Promise<UploadedAsset | null> => {
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const upload = await storeUpload(await prepareUpload(file));
+      setUploads(current => [...current, upload]);
+      await addPreview(upload.id);
+      return upload;
+    } catch (uploadError) {
+      console.error('Failed to upload drawing:', uploadError);
+      setError(uploadError instanceof Error ? uploadError.message : String(uploadError));
+      return null;
+    } finally {
+      setIsUploading(false);
+    }
+  }, [addPreview]);
+
+  return { uploads, previews, isUploading, error, addUpload };
+};
+
+export default useUploads;
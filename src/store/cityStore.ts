@@ -0,0 +1,593 @@
+import { create } from 'zustand';
+import { omit } from 'lodash';
+
+import type { Layer, Point, RoadCell } from '../types/city';
+import type { AssetDefinition } from '../types/asset';
+import type { MapTemplate } from '../types/mapTemplate';
+import type { CurrentCity, StorageItem } from '../types/project';
+import { createId } from '../utils/ids';
+import { findOverlap, type FootprintLayer } from '../utils/grid';
+import { roadKey } from '../utils/roads';
+import { decodeTerrain, encodeTerrain, type TerrainGrid } from '../utils/terrain';
+import {
+  createAddLayerCommand,
+  createAddRoadsCommand,
+  createBatchCommand,
+  createClearLayersCommand,
+  createRemoveLayerCommand,
+  createRemoveRoadsCommand,
+  createReorderCommand,
+  createTerrainCommand,
+  createStoreLayerCommand,
+  createUnstoreLayerCommand,
+  createUpdateLayerCommand,
+  type CityContents,
+  type Command,
+} from './history';
+
+// Default number of steps that can be undone
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// How far each paste or duplicate lands from the items it was copied from
+const PASTE_OFFSET = { x: 30, y: 30 };
+
+// Ways to move a layer through the stack with one step
+export type StackDirection = 'forward' | 'backward' | 'front' | 'back';
+
+interface CityState {
+  // City contents
+  layers: Layer[];
+  // The selected layer the item panel and transform handles work on
+  selectedLayerId: string | null;
+  // Every selected layer, including selectedLayerId
+  selectedLayerIds: string[];
+  mapPoints: Point[];
+  storageItems: StorageItem[];
+  roads: RoadCell[];
+  // Painted ground, or null when nothing has been painted
+  terrain: TerrainGrid | null;
+  mapTemplateId: string | null;
+  budget: number | null;
+
+  // Saved project the city belongs to
+  projectId: string | null;
+  projectName: string | null;
+  isLoaded: boolean;
+
+  // History state for undo/redo: commands up to historyIndex are applied
+  history: Command[];
+  historyIndex: number;
+  historyLimit: number;
+  // Commands collected while a batch is open, and how deeply batches are nested
+  batchCommands: Command[];
+  batchDepth: number;
+
+  // Layers last copied, and how many times they have been pasted since
+  clipboard: Layer[];
+  pasteCount: number;
+
+  // Grid mode keeps solid items from overlapping, using the footprints of the assets here
+  gridEnabled: boolean;
+  assets: AssetDefinition[];
+  setGridEnabled: (enabled: boolean) => void;
+  setAssets: (assets: AssetDefinition[]) => void;
+  // The layer that new or changed layers would overlap in grid mode, or null if they fit
+  findOverlap: (changed: FootprintLayer[]) => FootprintLayer | null;
+
+  // Layer management. In grid mode, adding, moving or resizing a layer onto
+  // another solid one does nothing, and addLayer returns null.
+  addLayer: (layer: Omit<Layer, 'id'>) => string | null;
+  // Locked layers are never removed
+  removeLayer: (id: string) => void;
+  updateLayer: (id: string, updates: Partial<Layer>) => void;
+  // Moving a layer takes it off its map point unless it lands on a new one
+  moveLayer: (id: string, position: { x: number; y: number }, pointId?: string) => void;
+  reorderLayers: (orderedIds: string[]) => void;
+  // Move a layer up or down the stack by one, or all the way
+  restackLayer: (id: string, direction: StackDirection) => void;
+  clearLayers: () => void;
+
+  // Selection. Selecting a grouped layer selects its whole group.
+  selectLayer: (id: string | null) => void;
+  // Add a layer to the selection, or take it out if it is already in
+  toggleLayerSelection: (id: string) => void;
+  selectLayers: (ids: string[]) => void;
+
+  // Several layers at once, each as a single undo step
+  removeLayers: (ids: string[]) => void;
+  moveLayers: (moves: { id: string; position: { x: number; y: number }; pointId?: string }[]) => void;
+  groupLayers: (ids: string[]) => string | null;
+  ungroupLayers: (ids: string[]) => void;
+  copyLayers: (ids: string[]) => void;
+  // Paste or duplicate copies, offset from the originals; returns the new ids,
+  // or none when a copy would overlap a solid item in grid mode
+  pasteLayers: () => string[];
+  duplicateLayers: (ids: string[]) => string[];
+
+  // Map points, map template and storage bar
+  setPoints: (points: Point[]) => void;
+  setMapTemplate: (template: MapTemplate) => void;
+  setBudget: (budget: number | null) => void;
+  storeLayer: (id: string) => void;
+  placeStorageItem: (itemId: string, position: { x: number; y: number }, pointId?: string) => string | null;
+
+  // Roads. Cells that already have road (or, when removing, don't) are skipped.
+  addRoads: (cells: RoadCell[]) => void;
+  removeRoads: (cells: RoadCell[]) => void;
+  // Replace the painted terrain as one undo step
+  setTerrain: (terrain: TerrainGrid) => void;
+
+  // Whole-city operations
+  loadCity: (city: CurrentCity | null) => void;
+  setProject: (projectId: string | null, projectName: string | null) => void;
+
+  // History management
+  execute: (command: Command) => void;
+  undo: () => void;
+  redo: () => void;
+  startBatch: () => void;
+  endBatch: () => void;
+  setHistoryLimit: (limit: number) => void;
+}
+
+/**
+ * zIndex that puts a new layer above every other. Removing layers leaves gaps,
+ * so the count of layers isn't enough.
+ */
+export const getTopZIndex = (layers: Layer[]) => layers.reduce((top, layer) => Math.max(top, layer.zIndex + 1), 0);
+
+// The given layer ids plus every layer grouped with them, in layer order
+const withGroups = (layers: Layer[], ids: string[]) => {
+  const idSet = new Set(ids);
+  const groupIds = new Set(layers.filter(layer => idSet.has(layer.id) && layer.groupId).map(layer => layer.groupId));
+  return layers
+    .filter(layer => idSet.has(layer.id) || (layer.groupId && groupIds.has(layer.groupId)))
+    .map(layer => layer.id);
+};
+
+// Pick the current values of the properties an update is about to change
+const pickChanged = (layer: Layer, updates: Partial<Layer>): Partial<Layer> =>
+  Object.fromEntries(
+    Object.keys(updates).map(key => [key, layer[key as keyof Layer]])
+  ) as Partial<Layer>;
+
+/**
+ * Global city store shared by the builder panels, the canvas and useCanvas
+ */
+export const useCityStore = create<CityState>()((set, get) => {
+  // Run a command's apply or revert against the store
+  const applyToStore = (change: (city: CityContents) => CityContents) => {
+    set(state => {
+      const city = change({
+        layers: state.layers,
+        storageItems: state.storageItems,
+        roads: state.roads,
+        terrain: state.terrain,
+      });
+      const existing = new Set(city.layers.map(layer => layer.id));
+      const selectedLayerIds = state.selectedLayerIds.filter(id => existing.has(id));
+      return {
+        layers: city.layers,
+        storageItems: city.storageItems,
+        roads: city.roads,
+        terrain: city.terrain,
+        selectedLayerId: state.selectedLayerId && existing.has(state.selectedLayerId)
+          ? state.selectedLayerId
+          : selectedLayerIds[selectedLayerIds.length - 1] ?? null,
+        selectedLayerIds,
+      };
+    });
+  };
+
+  // Run several store actions as one undo step
+  const batch = (run: () => void) => {
+    const { startBatch, endBatch } = get();
+    startBatch();
+    try {
+      run();
+    } finally {
+      endBatch();
+    }
+  };
+
+  // Add copies of layers on top of everything, shifted by an offset. Copies of a
+  // group form a new group of their own. The copies become the selection.
+  // Nothing is added when a copy would overlap a solid item in grid mode.
+  const addCopies = (sources: Layer[], offset: { x: number; y: number }) => {
+    const { layers, execute } = get();
+    const newGroupIds = new Map<string, string>();
+    const copies = [...sources]
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .map((source, i): Layer => {
+        if (source.groupId && !newGroupIds.has(source.groupId)) newGroupIds.set(source.groupId, createId('group'));
+        const groupId = source.groupId && newGroupIds.get(source.groupId);
+        return {
+          // Copies aren't on a map point, even when the original was
+          ...omit(source, ['pointId', 'groupId']),
+          id: createId('layer'),
+          position: { x: source.position.x + offset.x, y: source.position.y + offset.y },
+          zIndex: getTopZIndex(layers) + i,
+          ...(groupId && { groupId }),
+        };
+      });
+    if (copies.length === 0 || get().findOverlap(copies)) return [];
+
+    batch(() => copies.forEach(copy => execute(createAddLayerCommand(copy))));
+    const ids = copies.map(copy => copy.id);
+    set({ selectedLayerIds: ids, selectedLayerId: ids[ids.length - 1] });
+    return ids;
+  };
+
+  // Move a layer, leaving the map point it was on
+  const createMoveCommand = (layer: Layer, position: { x: number; y: number }, pointId?: string) =>
+    createUpdateLayerCommand(
+      layer.id,
+      { position: layer.position, pointId: layer.pointId },
+      { position, pointId },
+      'move'
+    );
+
+  // Add an applied command to the history, or to the open batch
+  const record = (command: Command) => {
+    const { history, historyIndex, historyLimit, batchDepth, batchCommands } = get();
+
+    if (batchDepth > 0) {
+      set({ batchCommands: [...batchCommands, command] });
+      return;
+    }
+
+    // Recording after an undo drops the redo branch, then the oldest steps go
+    const updated = [...history.slice(0, historyIndex + 1), command];
+    const trimmed = updated.slice(Math.max(0, updated.length - historyLimit));
+    set({ history: trimmed, historyIndex: trimmed.length - 1 });
+  };
+
+  return {
+    layers: [],
+    selectedLayerId: null,
+    selectedLayerIds: [],
+    mapPoints: [],
+    storageItems: [],
+    roads: [],
+    terrain: null,
+    mapTemplateId: null,
+    budget: null,
+    projectId: null,
+    projectName: null,
+    isLoaded: false,
+    history: [],
+    historyIndex: -1,
+    historyLimit: DEFAULT_HISTORY_LIMIT,
+    batchCommands: [],
+    batchDepth: 0,
+    clipboard: [],
+    pasteCount: 0,
+    gridEnabled: false,
+    assets: [],
+
+    setGridEnabled: (enabled) => set({ gridEnabled: enabled }),
+
+    setAssets: (assets) => set({ assets }),
+
+    findOverlap: (changed) => {
+      const { gridEnabled, layers, assets } = get();
+      return gridEnabled ? findOverlap(changed, layers, assets) : null;
+    },
+
+    execute: (command) => {
+      applyToStore(command.apply);
+      record(command);
+    },
+
+    addLayer: (newLayer) => {
+      const layer = { ...newLayer, id: createId('layer') };
+      if (get().findOverlap([layer])) return null;
+
+      get().execute(createAddLayerCommand(layer));
+      return layer.id;
+    },
+
+    removeLayer: (id) => {
+      const { layers, execute } = get();
+      const index = layers.findIndex(layer => layer.id === id);
+      if (index < 0 || layers[index].locked) return;
+
+      execute(createRemoveLayerCommand(layers[index], index));
+    },
+
+    updateLayer: (id, updates) => {
+      const { layers, execute } = get();
+      const layer = layers.find(l => l.id === id);
+      if (!layer) return;
+      // Only a new place or size can make an item overlap
+      if (('position' in updates || 'scale' in updates) && get().findOverlap([{ ...layer, ...updates }])) return;
+
+      execute(createUpdateLayerCommand(id, pickChanged(layer, updates), updates));
+    },
+
+    moveLayer: (id, position, pointId) => {
+      const { layers, execute } = get();
+      const layer = layers.find(l => l.id === id);
+      if (!layer || get().findOverlap([{ ...layer, position }])) return;
+
+      execute(createMoveCommand(layer, position, pointId));
+    },
+
+    // Restack layers bottom-to-top in the given order. Layers left out keep
+    // their relative order above the listed ones, so zIndex never has gaps.
+    reorderLayers: (orderedIds) => {
+      const { layers, execute } = get();
+      const known = new Set(layers.map(layer => layer.id));
+      const listed = orderedIds.filter(id => known.has(id));
+      const listedSet = new Set(listed);
+      const rest = [...layers]
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .filter(layer => !listedSet.has(layer.id))
+        .map(layer => layer.id);
+
+      const before = new Map(layers.map(layer => [layer.id, layer.zIndex]));
+      const after = new Map([...listed, ...rest].map((id, index) => [id, index]));
+      // Nothing to undo when the stack is already in this order
+      if ([...after].every(([id, zIndex]) => before.get(id) === zIndex)) return;
+
+      execute(createReorderCommand(before, after));
+    },
+
+    restackLayer: (id, direction) => {
+      const { layers, reorderLayers } = get();
+      const order = [...layers].sort((a, b) => a.zIndex - b.zIndex).map(layer => layer.id);
+      const index = order.indexOf(id);
+      if (index < 0) return;
+
+      const target = {
+        forward: Math.min(index + 1, order.length - 1),
+        backward: Math.max(index - 1, 0),
+        front: order.length - 1,
+        back: 0,
+      }[direction];
+      order.splice(index, 1);
+      order.splice(target, 0, id);
+      reorderLayers(order);
+    },
+
+    selectLayer: (id) => {
+      if (!id) {
+        set({ selectedLayerId: null, selectedLayerIds: [] });
+        return;
+      }
+      set({ selectedLayerId: id, selectedLayerIds: withGroups(get().layers, [id]) });
+    },
+
+    toggleLayerSelection: (id) => {
+      const { layers, selectedLayerIds } = get();
+      const toggled = withGroups(layers, [id]);
+
+      if (selectedLayerIds.includes(id)) {
+        const remaining = selectedLayerIds.filter(selected => !toggled.includes(selected));
+        set({ selectedLayerIds: remaining, selectedLayerId: remaining[remaining.length - 1] ?? null });
+      } else {
+        set({ selectedLayerIds: withGroups(layers, [...selectedLayerIds, id]), selectedLayerId: id });
+      }
+    },
+
+    selectLayers: (ids) => {
+      const selectedLayerIds = withGroups(get().layers, ids);
+      set({ selectedLayerIds, selectedLayerId: selectedLayerIds[selectedLayerIds.length - 1] ?? null });
+    },
+
+    removeLayers: (ids) => {
+      const { layers, removeLayer } = get();
+      // Last first, so each layer goes back to its own index on undo
+      const indices = ids
+        .map(id => layers.findIndex(layer => layer.id === id))
+        .filter(index => index >= 0)
+        .sort((a, b) => b - a);
+      batch(() => indices.forEach(index => removeLayer(layers[index].id)));
+    },
+
+    // The layers are checked for overlaps in their new places together, so
+    // they can move into each other's old cells
+    moveLayers: (moves) => {
+      const { layers, execute } = get();
+      const moved = moves.flatMap(({ id, position, pointId }) => {
+        const layer = layers.find(l => l.id === id);
+        return layer ? [{ layer, position, pointId }] : [];
+      });
+      if (get().findOverlap(moved.map(({ layer, position }) => ({ ...layer, position })))) return;
+
+      batch(() => moved.forEach(({ layer, position, pointId }) => execute(createMoveCommand(layer, position, pointId))));
+    },
+
+    groupLayers: (ids) => {
+      const { layers, updateLayer } = get();
+      const members = withGroups(layers, ids);
+      if (members.length < 2) return null;
+
+      const groupId = createId('group');
+      batch(() => members.forEach(id => updateLayer(id, { groupId })));
+      return groupId;
+    },
+
+    ungroupLayers: (ids) => {
+      const { layers, updateLayer } = get();
+      const grouped = withGroups(layers, ids).filter(id => layers.find(layer => layer.id === id)?.groupId);
+      batch(() => grouped.forEach(id => updateLayer(id, { groupId: undefined })));
+    },
+
+    copyLayers: (ids) => {
+      const { layers } = get();
+      const copied = withGroups(layers, ids);
+      if (copied.length === 0) return;
+      set({ clipboard: layers.filter(layer => copied.includes(layer.id)), pasteCount: 0 });
+    },
+
+    // Each paste lands a step further from the originals, so pastes don't stack up
+    pasteLayers: () => {
+      const { clipboard, pasteCount } = get();
+      if (clipboard.length === 0) return [];
+
+      const step = pasteCount + 1;
+      set({ pasteCount: step });
+      return addCopies(clipboard, { x: PASTE_OFFSET.x * step, y: PASTE_OFFSET.y * step });
+    },
+
+    duplicateLayers: (ids) => {
+      const { layers } = get();
+      const sources = withGroups(layers, ids);
+      return addCopies(layers.filter(layer => sources.includes(layer.id)), PASTE_OFFSET);
+    },
+
+    clearLayers: () => {
+      const { layers, execute } = get();
+      if (layers.length === 0) return;
+
+      execute(createClearLayersCommand(layers));
+    },
+
+    setPoints: (points) => set({ mapPoints: points }),
+
+    // Put the city on a bundled map, taking over its sockets and starting budget
+    setMapTemplate: (template) =>
+      set({ mapTemplateId: template.id, mapPoints: template.points, budget: template.budget }),
+
+    setBudget: (budget) => set({ budget }),
+
+    // Park a layer in the storage bar, keeping everything but its place
+    storeLayer: (id) => {
+      const { layers, execute } = get();
+      const index = layers.findIndex(layer => layer.id === id);
+      if (index < 0) return;
+
+      const item = { ...omit(layers[index], ['id', 'position', 'zIndex', 'pointId', 'groupId']), id: createId('storage') };
+      execute(createStoreLayerCommand(layers[index], index, item));
+    },
+
+    // Put a stored item back on the map, on top of everything else
+    placeStorageItem: (itemId, position, pointId) => {
+      const { layers, storageItems, execute } = get();
+      const index = storageItems.findIndex(item => item.id === itemId);
+      if (index < 0) return null;
+
+      const layer: Layer = {
+        ...omit(storageItems[index], 'id'),
+        id: createId('layer'),
+        position,
+        zIndex: getTopZIndex(layers),
+        ...(pointId && { pointId }),
+      };
+      if (get().findOverlap([layer])) return null;
+
+      execute(createUnstoreLayerCommand(storageItems[index], index, layer));
+      return layer.id;
+    },
+
+    addRoads: (cells) => {
+      const { roads, execute } = get();
+      const taken = new Set(roads.map(roadKey));
+      const added = cells.filter(cell => {
+        const key = roadKey(cell);
+        if (taken.has(key)) return false;
+        taken.add(key);
+        return true;
+      });
+      if (added.length > 0) execute(createAddRoadsCommand(added));
+    },
+
+    removeRoads: (cells) => {
+      const { roads, execute } = get();
+      const removing = new Set(cells.map(roadKey));
+      const removed = roads.filter(road => removing.has(roadKey(road)));
+      if (removed.length > 0) execute(createRemoveRoadsCommand(removed));
+    },
+
+    setTerrain: (terrain) => {
+      const { terrain: before, execute } = get();
+      if (before?.cells === terrain.cells) return;
+
+      execute(createTerrainCommand(before, terrain));
+    },
+
+    loadCity: (city) =>
+      set({
+        layers: city?.layers ?? [],
+        mapPoints: city?.mapPoints ?? [],
+        storageItems: city?.storageItems ?? [],
+        roads: city?.roads ?? [],
+        terrain: city?.terrain ? decodeTerrain(city.terrain) : null,
+        mapTemplateId: city?.mapTemplateId ?? null,
+        budget: city?.budget ?? null,
+        projectId: city?.projectId ?? null,
+        projectName: city?.name ?? null,
+        isLoaded: true,
+        // A loaded city starts with a fresh history
+        selectedLayerId: null,
+        selectedLayerIds: [],
+        history: [],
+        historyIndex: -1,
+        batchCommands: [],
+        batchDepth: 0,
+      }),
+
+    setProject: (projectId, projectName) => set({ projectId, projectName }),
+
+    undo: () => {
+      const { history, historyIndex, batchDepth } = get();
+      if (historyIndex < 0 || batchDepth > 0) return;
+
+      applyToStore(history[historyIndex].revert);
+      set({ historyIndex: historyIndex - 1 });
+    },
+
+    redo: () => {
+      const { history, historyIndex, batchDepth } = get();
+      if (historyIndex >= history.length - 1 || batchDepth > 0) return;
+
+      applyToStore(history[historyIndex + 1].apply);
+      set({ historyIndex: historyIndex + 1 });
+    },
+
+    // Start collecting commands into one undo step (batches may nest)
+    startBatch: () => set(state => ({ batchDepth: state.batchDepth + 1 })),
+
+    // Close the batch; the outermost one records everything as a single command
+    endBatch: () => {
+      const { batchDepth, batchCommands } = get();
+      if (batchDepth === 0) return;
+
+      set({ batchDepth: batchDepth - 1 });
+      if (batchDepth > 1) return;
+
+      set({ batchCommands: [] });
+      if (batchCommands.length === 1) record(batchCommands[0]);
+      else if (batchCommands.length > 1) record(createBatchCommand(batchCommands));
+    },
+
+    setHistoryLimit: (limit) => {
+      const historyLimit = Math.max(1, Math.floor(limit));
+      const { history, historyIndex } = get();
+      const dropped = Math.max(0, history.length - historyLimit);
+
+      set({
+        historyLimit,
+        history: history.slice(dropped),
+        historyIndex: Math.max(-1, historyIndex - dropped),
+      });
+    },
+  };
+});
+
+/**
+ * The city as the working copy persisted between sessions
+ */
+export const selectCurrentCity = (state: CityState): CurrentCity => ({
+  layers: state.layers,
+  mapPoints: state.mapPoints,
+  storageItems: state.storageItems,
+  roads: state.roads,
+  terrain: state.terrain && encodeTerrain(state.terrain),
+  mapTemplateId: state.mapTemplateId,
+  budget: state.budget,
+  projectId: state.projectId,
+  name: state.projectName,
+  updatedAt: Date.now(),
+});
@@ -0,0 +1,164 @@
+import type { Layer, RoadCell } from '../types/city';
+import type { StorageItem } from '../types/project';
+import type { TerrainGrid } from '../utils/terrain';
+
+// The parts of a city that undo/redo can change
+export interface CityContents {
+  layers: Layer[];
+  storageItems: StorageItem[];
+  roads: RoadCell[];
+  terrain: TerrainGrid | null;
+}
+
+/**
+ * A reversible change to the city. `apply` and `revert` are pure, so a command
+ * can be replayed any number of times in either direction.
+ */
+export interface Command {
+  type: 'add' | 'remove' | 'update' | 'move' | 'reorder' | 'clear' | 'store' | 'unstore' | 'road' | 'terrain' | 'batch';
+  apply: (city: CityContents) => CityContents;
+  revert: (city: CityContents) => CityContents;
+}
+
+// Replace the layer with the given id
+const patchLayer = (layers: Layer[], id: string, updates: Partial<Layer>) =>
+  layers.map(layer => (layer.id === id ? { ...layer, ...updates } : layer));
+
+// Insert an item back where it used to be
+const insertAt = <T>(items: T[], index: number, item: T) => {
+  const updated = [...items];
+  updated.splice(Math.min(index, updated.length), 0, item);
+  return updated;
+};
+
+// Set each layer's zIndex from a lookup, leaving unknown layers alone
+const applyZIndices = (layers: Layer[], zIndices: Map<string, number>) =>
+  layers.map(layer => {
+    const zIndex = zIndices.get(layer.id);
+    return zIndex === undefined || zIndex === layer.zIndex ? layer : { ...layer, zIndex };
+  });
+
+/**
+ * Add a layer on top of the city
+ */
+export const createAddLayerCommand = (layer: Layer): Command => ({
+  type: 'add',
+  apply: city => ({ ...city, layers: [...city.layers, layer] }),
+  revert: city => ({ ...city, layers: city.layers.filter(l => l.id !== layer.id) }),
+});
+
+/**
+ * Remove a layer, putting it back at the same index on undo
+ */
+export const createRemoveLayerCommand = (layer: Layer, index: number): Command => ({
+  type: 'remove',
+  apply: city => ({ ...city, layers: city.layers.filter(l => l.id !== layer.id) }),
+  revert: city => ({ ...city, layers: insertAt(city.layers, index, layer) }),
+});
+
+/**
+ * Change some properties of a layer. `before` holds the old values of exactly
+ * the properties in `after`.
+ */
+export const createUpdateLayerCommand = (
+  id: string,
+  before: Partial<Layer>,
+  after: Partial<Layer>,
+  type: 'update' | 'move' = 'update'
+): Command => ({
+  type,
+  apply: city => ({ ...city, layers: patchLayer(city.layers, id, after) }),
+  revert: city => ({ ...city, layers: patchLayer(city.layers, id, before) }),
+});
+
+/**
+ * Rewrite the zIndex of several layers at once
+ */
+export const createReorderCommand = (before: Map<string, number>, after: Map<string, number>): Command => ({
+  type: 'reorder',
+  apply: city => ({ ...city, layers: applyZIndices(city.layers, after) }),
+  revert: city => ({ ...city, layers: applyZIndices(city.layers, before) }),
+});
+
+/**
+ * Remove every layer, restoring them all on undo
+ */
+export const createClearLayersCommand = (layers: Layer[]): Command => ({
+  type: 'clear',
+  apply: city => ({ ...city, layers: [] }),
+  revert: city => ({ ...city, layers }),
+});
+
+/**
+ * Move a layer off the map into the storage bar
+ */
+export const createStoreLayerCommand = (layer: Layer, layerIndex: number, item: StorageItem): Command => ({
+  type: 'store',
+  apply: city => ({
+    ...city,
+    layers: city.layers.filter(l => l.id !== layer.id),
+    storageItems: [...city.storageItems, item],
+  }),
+  revert: city => ({
+    ...city,
+    layers: insertAt(city.layers, layerIndex, layer),
+    storageItems: city.storageItems.filter(i => i.id !== item.id),
+  }),
+});
+
+/**
+ * Take an item out of the storage bar and place it on the map as a layer
+ */
+export const createUnstoreLayerCommand = (item: StorageItem, itemIndex: number, layer: Layer): Command => ({
+  type: 'unstore',
+  apply: city => ({
+    ...city,
+    layers: [...city.layers, layer],
+    storageItems: city.storageItems.filter(i => i.id !== item.id),
+  }),
+  revert: city => ({
+    ...city,
+    layers: city.layers.filter(l => l.id !== layer.id),
+    storageItems: insertAt(city.storageItems, itemIndex, item),
+  }),
+});
+
+// Road cells without the given ones
+const withoutRoads = (roads: RoadCell[], removed: RoadCell[]) =>
+  roads.filter(road => !removed.some(cell => cell.column === road.column && cell.row === road.row));
+
+/**
+ * Lay road on some cells that don't have any yet
+ */
+export const createAddRoadsCommand = (cells: RoadCell[]): Command => ({
+  type: 'road',
+  apply: city => ({ ...city, roads: [...city.roads, ...cells] }),
+  revert: city => ({ ...city, roads: withoutRoads(city.roads, cells) }),
+});
+
+/**
+ * Take the road off some cells that have it
+ */
+export const createRemoveRoadsCommand = (cells: RoadCell[]): Command => ({
+  type: 'road',
+  apply: city => ({ ...city, roads: withoutRoads(city.roads, cells) }),
+  revert: city => ({ ...city, roads: [...city.roads, ...cells] }),
+});
+
+/**
+ * Swap the painted terrain, e.g. after a brush stroke
+ */
+export const createTerrainCommand = (before: TerrainGrid | null, after: TerrainGrid | null): Command => ({
+  type: 'terrain',
+  apply: city => ({ ...city, terrain: after }),
+  revert: city => ({ ...city, terrain: before }),
+});
+
+/**
+ * Several commands that undo and redo as one step
+ */
+export const createBatchCommand = (commands: Command[]): Command => ({
+  type: 'batch',
+  apply: city => commands.reduce((current, command) => command.apply(current), city),
+  revert: city => commands.reduceRight((current, command) => command.revert(current), city),
+});
@@ -0,0 +1,50 @@
+// Toolbar tabs the catalogue is grouped into. "drawings" holds the player's own uploads.
+export const ASSET_CATEGORIES = ['buildings', 'nature', 'animals', 'decorations', 'drawings'] as const;
+export type AssetCategory = (typeof ASSET_CATEGORIES)[number];
+
+// A building material from the catalogue, worth a number of coins
+export interface Material {
+  id: string;
+  name: string;
+  // Font Awesome icon name, like asset icons
+  icon: string;
+  coinValue: number;
+}
+
+// What something costs: coins plus amounts of materials by material id
+export interface AssetCost {
+  coins: number;
+  materials: Record<string, number>;
+}
+
+// One look of an asset; higher versions are fancier
+export interface AssetVersion {
+  version: number;
+  texturePath: string;
+  // Price of getting to this version: placing it for the first version,
+  // upgrading from the one below for the others
+  cost: AssetCost;
+}
+
+// An item that can be placed in a city, as described by the asset manifest
+export interface AssetDefinition {
+  // Also the `type` of layers made from it
+  id: string;
+  name: string;
+  category: AssetCategory;
+  // Font Awesome icon name shown in the toolbar, e.g. "house"
+  icon: string;
+  versions: AssetVersion[];
+  // Point of the texture (0–1 on each axis) that sits on the spot it is placed at
+  anchor: { x: number; y: number };
+  defaultScale: number;
+  // Space the item takes up at its default scale, in map grid cells. It should
+  // match how big the art draws, or grid mode blocks cells that look empty.
+  footprint: { width: number; height: number };
+}
+
+// Everything the asset manifest describes
+export interface AssetManifest {
+  assets: AssetDefinition[];
+  materials: Material[];
+}
@@ -0,0 +1,42 @@
+// Types for layers and positions
+export interface Layer {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  scale: number;
+  rotation?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  opacity: number;
+  zIndex: number;
+  locked: boolean;
+  visible: boolean;
+  version: number;
+  texturePath: string;
+  // Map point the layer sits on, if it was snapped to one
+  pointId?: string;
+  // Layers sharing a group id are selected and moved together
+  groupId?: string;
+}
+
+// A grid cell with road on it
+export interface RoadCell {
+  column: number;
+  row: number;
+}
+
+// Ground painted under the city, as a grid of cells saved run-length encoded:
+// "<count><letter>" runs row by row, e.g. "120.8g"
+export interface TerrainMap {
+  columns: number;
+  rows: number;
+  runs: string;
+}
+
+export interface Point {
+  id: string;
+  x: number;
+  y: number;
+  type: string; // an asset id such as "hospital" or "shop", or "open"
+  name?: string;
+}
@@ -0,0 +1,15 @@
+import type { Point } from './city';
+
+// A predefined map a new city can start from
+export interface MapTemplate {
+  id: string;
+  title: string;
+  // Image drawn under everything, covering the whole world
+  background: string;
+  // Small preview shown in the map picker
+  thumbnail: string;
+  // Sockets buildings can snap onto
+  points: Point[];
+  // Coins a city on this map starts with
+  budget: number;
+}
@@ -0,0 +1,36 @@
+import type { Layer, Point, RoadCell, TerrainMap } from './city';
+
+// A layer parked in the storage bar below the canvas. It keeps everything but
+// its place on the map, so it comes back exactly as it was.
+export interface StorageItem extends Omit<Layer, 'id' | 'position' | 'zIndex' | 'pointId' | 'groupId'> {
+  id: string;
+}
+
+// Everything needed to rebuild a city in the builder
+export interface CityDocument {
+  layers: Layer[];
+  mapPoints: Point[];
+  storageItems: StorageItem[];
+  // Cells with road on them; which road piece each one shows follows from its neighbours
+  roads: RoadCell[];
+  // Painted ground, or null when nothing has been painted
+  terrain: TerrainMap | null;
+  // Bundled map the city was started from, if any
+  mapTemplateId: string | null;
+  // Coins the player may spend on items; null means no limit
+  budget: number | null;
+}
+
+// A named city saved by the player
+export interface CityProject extends CityDocument {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+// The builder's working copy, remembering which saved project it came from
+export interface CurrentCity extends CityDocument {
+  projectId: string | null;
+  name: string | null;
+  updatedAt: number;
+}
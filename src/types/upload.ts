@@ -0,0 +1,19 @@
+// Image formats a drawing may be uploaded as
+export const UPLOAD_MIME_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'] as const;
+export type UploadMimeType = (typeof UPLOAD_MIME_TYPES)[number];
+
+// A drawing the player uploaded, shown under "My Drawings"
+export interface UploadedAsset {
+  id: string;
+  name: string;
+  mimeType: UploadMimeType;
+  // Size of the stored image, after any downscaling
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+// An upload together with its (sanitised) image, as kept in IndexedDB
+export interface StoredUpload extends UploadedAsset {
+  blob: Blob;
+}
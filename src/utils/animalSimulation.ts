@@ -0,0 +1,244 @@
+import type { Layer } from '../types/city';
+import type { AssetDefinition } from '../types/asset';
+import { findAsset } from './assetManifest';
+import { GRID_CELL_SIZE, getFootprintCells } from './grid';
+
+// How far (in world pixels) an animal strays from where it was placed
+const WANDER_RADIUS = 160;
+// Trees and benches further than this from an animal's spot don't tempt it
+const VISIT_RANGE = 320;
+// Chance an animal heads for a tree or bench in range instead of just wandering
+const VISIT_CHANCE = 0.3;
+// Items animals like to walk over to
+const ATTRACTION_TYPES = ['tree', 'bench'];
+// Walking speed in world pixels per second
+const WALK_SPEED = 70;
+// How long an animal stands about between walks, in ms
+const MIN_REST = 1000;
+const MAX_REST = 4000;
+// Tries at finding a spot clear of buildings before staying put for a while
+const TARGET_ATTEMPTS = 8;
+// Longest time simulated in one step, so a stalled tab doesn't send animals through walls
+const MAX_STEP = 100;
+
+export type AnimalBehaviour = 'idle' | 'wander' | 'visit';
+
+// Where an animal is and what it's up to. Positions are top-left corners, like
+// `Layer.position`.
+export interface AnimalState {
+  layerId: string;
+  // Where the layer was placed, and where the animal has walked to
+  home: { x: number; y: number };
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  behaviour: AnimalBehaviour;
+  // Where a walking animal is heading
+  target: { x: number; y: number } | null;
+  // Time left standing about, in ms
+  rest: number;
+  // 1 when last walking right, -1 when last walking left
+  facing: 1 | -1;
+}
+
+export interface AnimalSimulation {
+  // Catch up with the city: new animals start at home, moved ones start again
+  // from their new spot and removed or hidden ones are forgotten
+  sync: (layers: Layer[], assets: AssetDefinition[]) => void;
+  // Move time on. Held animals, e.g. selected ones, are sent home and stand
+  // still; returns the ids of those that had wandered off.
+  step: (deltaMS: number, held?: Set<string>) => string[];
+  getAnimals: () => AnimalState[];
+}
+
+interface SimulationOptions {
+  // Returns numbers in [0, 1), like Math.random
+  random: () => number;
+  // Animals stay inside the world
+  world: { width: number; height: number };
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Repeatable random numbers in [0, 1) from a seed (mulberry32)
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const overlaps = (a: Box, b: Box) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+/**
+ * Animals that idle, wander around where they were placed, keep out of
+ * buildings and now and then walk over to a nearby tree or bench. Only the
+ * simulation's own state moves; layers are never changed.
+ */
+export const createAnimalSimulation = ({ random, world }: SimulationOptions): AnimalSimulation => {
+  const animals = new Map<string, AnimalState>();
+  let buildings: Box[] = [];
+  let attractions: { x: number; y: number }[] = [];
+
+  const randomBetween = (min: number, max: number) => min + random() * (max - min);
+
+  const isBlocked = (position: { x: number; y: number }, size: AnimalState['size']) =>
+    buildings.some(building => overlaps({ ...position, ...size }, building));
+
+  const clampToWorld = (position: { x: number; y: number }, size: AnimalState['size']) => ({
+    x: Math.min(Math.max(position.x, 0), world.width - size.width),
+    y: Math.min(Math.max(position.y, 0), world.height - size.height),
+  });
+
+  const rest = (animal: AnimalState, time = randomBetween(MIN_REST, MAX_REST)) => {
+    animal.behaviour = 'idle';
+    animal.target = null;
+    animal.rest = time;
+  };
+
+  // Pick a tree or bench to visit, or else a spot near home, or else stay put
+  const chooseWalk = (animal: AnimalState) => {
+    const nearby = attractions.filter(
+      spot => Math.hypot(spot.x - animal.home.x, spot.y - animal.home.y) <= VISIT_RANGE
+    );
+    if (nearby.length > 0 && random() < VISIT_CHANCE) {
+      const spot = nearby[Math.floor(random() * nearby.length)];
+      // Stand beside it rather than on it
+      const side = random() < 0.5 ? -1 : 1;
+      const target = clampToWorld({ x: spot.x + side * GRID_CELL_SIZE, y: spot.y }, animal.size);
+      if (!isBlocked(target, animal.size)) {
+        animal.behaviour = 'visit';
+        animal.target = target;
+        return;
+      }
+    }
+
+    for (let i = 0; i < TARGET_ATTEMPTS; i++) {
+      const angle = random() * Math.PI * 2;
+      // Square root spreads spots evenly over the circle instead of bunching them in the middle
+      const distance = Math.sqrt(random()) * WANDER_RADIUS;
+      const target = clampToWorld(
+        { x: animal.home.x + Math.cos(angle) * distance, y: animal.home.y + Math.sin(angle) * distance },
+        animal.size
+      );
+      if (!isBlocked(target, animal.size)) {
+        animal.behaviour = 'wander';
+        animal.target = target;
+        return;
+      }
+    }
+    rest(animal);
+  };
+
+  const walk = (animal: AnimalState, target: { x: number; y: number }, deltaMS: number) => {
+    const dx = target.x - animal.position.x;
+    const dy = target.y - animal.position.y;
+    const distance = Math.hypot(dx, dy);
+    const travel = (WALK_SPEED * deltaMS) / 1000;
+    if (dx !== 0) animal.facing = dx > 0 ? 1 : -1;
+
+    if (distance <= travel) {
+      animal.position = { ...target };
+      rest(animal);
+      return;
+    }
+
+    const next = { x: animal.position.x + (dx / distance) * travel, y: animal.position.y + (dy / distance) * travel };
+    // Stop at a building's edge and think again. An animal placed inside one can still walk out.
+    if (isBlocked(next, animal.size) && !isBlocked(animal.position, animal.size)) {
+      rest(animal);
+      return;
+    }
+    animal.position = next;
+  };
+
+  return {
+    sync: (layers, assets) => {
+      const seen = new Set<string>();
+      buildings = [];
+      attractions = [];
+
+      layers.forEach(layer => {
+        const asset = findAsset(assets, layer.type);
+        if (!asset || !layer.visible) return;
+
+        if (asset.category === 'buildings') {
+          const cells = getFootprintCells(layer, asset);
+          buildings.push({
+            x: cells.column * GRID_CELL_SIZE,
+            y: cells.row * GRID_CELL_SIZE,
+            width: cells.width * GRID_CELL_SIZE,
+            height: cells.height * GRID_CELL_SIZE,
+          });
+        } else if (ATTRACTION_TYPES.includes(asset.id)) {
+          attractions.push(layer.position);
+        } else if (asset.category === 'animals') {
+          const cells = getFootprintCells(layer, asset);
+          const size = { width: cells.width * GRID_CELL_SIZE, height: cells.height * GRID_CELL_SIZE };
+          const animal = animals.get(layer.id);
+          seen.add(layer.id);
+
+          if (animal && animal.home.x === layer.position.x && animal.home.y === layer.position.y) {
+            animal.size = size;
+            return;
+          }
+          const placed: AnimalState = {
+            layerId: layer.id,
+            home: { ...layer.position },
+            position: { ...layer.position },
+            size,
+            behaviour: 'idle',
+            target: null,
+            rest: 0,
+            facing: 1,
+          };
+          rest(placed);
+          animals.set(layer.id, placed);
+        }
+      });
+
+      animals.forEach((_, id) => {
+        if (!seen.has(id)) animals.delete(id);
+      });
+    },
+
+    step: (deltaMS, held = new Set()) => {
+      const time = Math.min(Math.max(deltaMS, 0), MAX_STEP);
+      const sentHome: string[] = [];
+
+      animals.forEach(animal => {
+        if (held.has(animal.layerId)) {
+          const away =
+            animal.position.x !== animal.home.x || animal.position.y !== animal.home.y || animal.facing !== 1;
+          animal.position = { ...animal.home };
+          animal.facing = 1;
+          rest(animal, MAX_REST);
+          if (away) sentHome.push(animal.layerId);
+          return;
+        }
+
+        if (animal.target) {
+          walk(animal, animal.target, time);
+          return;
+        }
+        animal.rest -= time;
+        if (animal.rest <= 0) chooseWalk(animal);
+      });
+
+      return sentHome;
+    },
+
+    getAnimals: () => [...animals.values()],
+  };
+};
@@ -0,0 +1,87 @@
+import type { AssetCategory } from '../types/asset';
+import {
+  type IconDefinition,
+  faBreadSlice,
+  faBuilding,
+  faCar,
+  faCat,
+  faChair,
+  faCube,
+  faDog,
+  faDove,
+  faFish,
+  faFlag,
+  faHorse,
+  faHospital,
+  faHouse,
+  faImage,
+  faLandmark,
+  faLeaf,
+  faPaintBrush,
+  faPaw,
+  faSchool,
+  faSeedling,
+  faShapes,
+  faStar,
+  faStore,
+  faTree,
+} from '@fortawesome/free-solid-svg-icons';
+
+// Icons the asset manifest may name. Only these are bundled, so the manifest
+// can't ask for one that doesn't exist in Font Awesome Free.
+const ASSET_ICONS: Record<string, IconDefinition> = {
+  'bread-slice': faBreadSlice,
+  building: faBuilding,
+  car: faCar,
+  cat: faCat,
+  chair: faChair,
+  cube: faCube,
+  dog: faDog,
+  dove: faDove,
+  fish: faFish,
+  flag: faFlag,
+  horse: faHorse,
+  hospital: faHospital,
+  house: faHouse,
+  image: faImage,
+  landmark: faLandmark,
+  leaf: faLeaf,
+  paw: faPaw,
+  school: faSchool,
+  seedling: faSeedling,
+  shapes: faShapes,
+  star: faStar,
+  store: faStore,
+  tree: faTree,
+};
+
+// Labels and icons for the catalogue's categories
+export const ASSET_CATEGORY_LABELS: Record<AssetCategory, string> = {
+  buildings: 'Buildings',
+  nature: 'Nature',
+  animals: 'Animals',
+  decorations: 'Decorations',
+  drawings: 'My Drawings',
+};
+
+export const ASSET_CATEGORY_ICONS: Record<AssetCategory, IconDefinition> = {
+  buildings: faBuilding,
+  nature: faTree,
+  animals: faPaw,
+  decorations: faStar,
+  drawings: faPaintBrush,
+};
+
+// Shown for assets whose icon is unknown
+const FALLBACK_ICON = faCube;
+
+/**
+ * Whether the manifest may use an icon name
+ */
+export const isAssetIcon = (name: string) => Object.hasOwn(ASSET_ICONS, name);
+
+/**
+ * Font Awesome icon for an icon name from the manifest
+ */
+export const getAssetIcon = (name: string | undefined): IconDefinition =>
+  (name && ASSET_ICONS[name]) || FALLBACK_ICON;
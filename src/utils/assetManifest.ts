@@ -0,0 +1,235 @@
+import {
+  ASSET_CATEGORIES,
+  type AssetCategory,
+  type AssetCost,
+  type AssetDefinition,
+  type AssetManifest,
+  type AssetVersion,
+  type Material,
+} from '../types/asset';
+import { isAssetIcon } from './assetIcons';
+
+// Where the bundled catalogue is served from
+export const ASSET_MANIFEST_URL = '/assets/manifest.json';
+
+// Thrown when the asset manifest has a missing or malformed entry
+export class AssetManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetManifestError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRecord = (record: Record<string, unknown>, key: string, path: string): Record<string, unknown> => {
+  const value = record[key];
+  if (!isRecord(value)) throw new AssetManifestError(`${path}.${key} must be an object`);
+  return value;
+};
+
+const readString = (record: Record<string, unknown>, key: string, path: string): string => {
+  const value = record[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new AssetManifestError(`${path}.${key} must be a non-empty string`);
+  }
+  return value;
+};
+
+const readNumber = (
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  check: { min?: number; max?: number; integer?: boolean; positive?: boolean } = {}
+): number => {
+  const value = record[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new AssetManifestError(`${path}.${key} must be a number`);
+  }
+  if (check.integer && !Number.isInteger(value)) {
+    throw new AssetManifestError(`${path}.${key} must be a whole number, got ${value}`);
+  }
+  if (check.positive && value <= 0) {
+    throw new AssetManifestError(`${path}.${key} must be greater than 0, got ${value}`);
+  }
+  if ((check.min !== undefined && value < check.min) || (check.max !== undefined && value > check.max)) {
+    throw new AssetManifestError(`${path}.${key} must be between ${check.min} and ${check.max}, got ${value}`);
+  }
+  return value;
+};
+
+const isCategory = (value: unknown): value is AssetCategory =>
+  ASSET_CATEGORIES.includes(value as AssetCategory);
+
+const parseCost = (value: Record<string, unknown>, path: string): AssetCost => {
+  const materials = readRecord(value, 'materials', path);
+
+  return {
+    coins: readNumber(value, 'coins', path, { integer: true, min: 0 }),
+    materials: Object.fromEntries(
+      Object.keys(materials).map(id => [id, readNumber(materials, id, `${path}.materials`, { integer: true, min: 0 })])
+    ),
+  };
+};
+
+const parseVersion = (value: unknown, path: string): AssetVersion => {
+  if (!isRecord(value)) throw new AssetManifestError(`${path} must be an object`);
+
+  return {
+    version: readNumber(value, 'version', path, { integer: true, positive: true }),
+    texturePath: readString(value, 'texturePath', path),
+    cost: parseCost(readRecord(value, 'cost', path), `${path}.cost`),
+  };
+};
+
+/**
+ * Validate one material from the manifest
+ */
+export const parseMaterial = (value: unknown, path = 'material'): Material => {
+  if (!isRecord(value)) throw new AssetManifestError(`${path} must be an object`);
+
+  const icon = readString(value, 'icon', path);
+  if (!isAssetIcon(icon)) throw new AssetManifestError(`${path}.icon "${icon}" is not an available icon`);
+
+  return {
+    id: readString(value, 'id', path),
+    name: readString(value, 'name', path),
+    icon,
+    coinValue: readNumber(value, 'coinValue', path, { min: 0 }),
+  };
+};
+
+/**
+ * Validate one asset entry from the manifest
+ */
+export const parseAssetDefinition = (value: unknown, path = 'asset'): AssetDefinition => {
+  if (!isRecord(value)) throw new AssetManifestError(`${path} must be an object`);
+
+  const id = readString(value, 'id', path);
+
+  const category = value.category;
+  if (!isCategory(category)) {
+    throw new AssetManifestError(
+      `${path}.category must be one of ${ASSET_CATEGORIES.join(', ')}, got ${JSON.stringify(category)}`
+    );
+  }
+
+  const icon = readString(value, 'icon', path);
+  if (!isAssetIcon(icon)) throw new AssetManifestError(`${path}.icon "${icon}" is not an available icon`);
+
+  if (!Array.isArray(value.versions) || value.versions.length === 0) {
+    throw new AssetManifestError(`${path}.versions must be a non-empty array`);
+  }
+  const versions = value.versions
+    .map((version, i) => parseVersion(version, `${path}.versions[${i}]`))
+    .sort((a, b) => a.version - b.version);
+  versions.forEach((version, i) => {
+    if (i > 0 && version.version === versions[i - 1].version) {
+      throw new AssetManifestError(`${path}.versions has version ${version.version} more than once`);
+    }
+  });
+
+  const anchor = readRecord(value, 'anchor', path);
+  const footprint = readRecord(value, 'footprint', path);
+
+  return {
+    id,
+    name: readString(value, 'name', path),
+    category,
+    icon,
+    versions,
+    anchor: {
+      x: readNumber(anchor, 'x', `${path}.anchor`, { min: 0, max: 1 }),
+      y: readNumber(anchor, 'y', `${path}.anchor`, { min: 0, max: 1 }),
+    },
+    defaultScale: readNumber(value, 'defaultScale', path, { positive: true }),
+    footprint: {
+      width: readNumber(footprint, 'width', `${path}.footprint`, { integer: true, positive: true }),
+      height: readNumber(footprint, 'height', `${path}.footprint`, { integer: true, positive: true }),
+    },
+  };
+};
+
+// Throw if two entries share an id
+const checkUniqueIds = (entries: { id: string }[], path: string) => {
+  const seen = new Set<string>();
+  entries.forEach((entry, i) => {
+    if (seen.has(entry.id)) throw new AssetManifestError(`${path}[${i}].id "${entry.id}" is used more than once`);
+    seen.add(entry.id);
+  });
+};
+
+/**
+ * Validate a whole manifest: assets and materials with unique ids, and costs
+ * that only use materials from the catalogue
+ */
+export const parseAssetManifest = (value: unknown): AssetManifest => {
+  if (!isRecord(value) || !Array.isArray(value.assets)) {
+    throw new AssetManifestError('manifest must be an object with an "assets" array');
+  }
+  if (value.materials !== undefined && !Array.isArray(value.materials)) {
+    throw new AssetManifestError('manifest.materials must be an array');
+  }
+
+  const materials = (value.materials ?? []).map((material, i) => parseMaterial(material, `materials[${i}]`));
+  checkUniqueIds(materials, 'materials');
+
+  const assets = value.assets.map((asset, i) => parseAssetDefinition(asset, `assets[${i}]`));
+  checkUniqueIds(assets, 'assets');
+
+  const materialIds = new Set(materials.map(material => material.id));
+  assets.forEach((asset, i) => {
+    asset.versions.forEach(({ version, cost }) => {
+      const unknown = Object.keys(cost.materials).find(id => !materialIds.has(id));
+      if (unknown) {
+        throw new AssetManifestError(`assets[${i}] version ${version} costs unknown material "${unknown}"`);
+      }
+    });
+  });
+
+  return { assets, materials };
+};
+
+// The manifest is fetched once and shared by every screen
+let manifestRequest: Promise<AssetManifest> | null = null;
+
+/**
+ * Fetch and validate the asset manifest
+ */
+export const loadAssetManifest = (): Promise<AssetManifest> => {
+  if (!manifestRequest) {
+    manifestRequest = fetch(ASSET_MANIFEST_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch ${ASSET_MANIFEST_URL}: ${response.status}`);
+        return response.json();
+      })
+      .then(parseAssetManifest);
+
+    // Let a later call try again after a failure
+    manifestRequest.catch(() => {
+      manifestRequest = null;
+    });
+  }
+  return manifestRequest;
+};
+
+/**
+ * Find the asset a layer or storage item was made from
+ */
+export const findAsset = (assets: AssetDefinition[], id: string | null | undefined) =>
+  assets.find(asset => asset.id === id) ?? null;
+
+/**
+ * The first (plainest) version of an asset, used for new items
+ */
+export const getBaseVersion = (asset: AssetDefinition): AssetVersion => asset.versions[0];
+
+/**
+ * The version one step above (1) or below (-1) the given one, or null at the end of the path
+ */
+export const getAdjacentVersion = (asset: AssetDefinition, version: number, step: 1 | -1): AssetVersion | null => {
+  const index = asset.versions.findIndex(v => v.version === version);
+  if (index < 0) return null;
+  return asset.versions[index + step] ?? null;
+};
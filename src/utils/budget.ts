@@ -0,0 +1,70 @@
+import { ASSET_CATEGORIES, type AssetCategory, type AssetCost, type AssetDefinition, type Material } from '../types/asset';
+import { findAsset } from './assetManifest';
+
+// Spending on one category of assets
+export interface CategorySpending {
+  coins: number;
+  // Material amounts used, by material id
+  materials: Record<string, number>;
+  items: number;
+}
+
+export interface Spending {
+  // Everything, in coins with materials at their coin value
+  total: number;
+  byCategory: Record<AssetCategory, CategorySpending>;
+}
+
+/**
+ * What a cost comes to in coins, with each material at its catalogue value
+ */
+export const costInCoins = (cost: AssetCost, materials: Material[]) =>
+  Object.entries(cost.materials).reduce((sum, [id, amount]) => {
+    const material = materials.find(m => m.id === id);
+    return sum + amount * (material?.coinValue ?? 0);
+  }, cost.coins);
+
+/**
+ * Everything paid for an item at a version: the first version plus every upgrade up to it
+ */
+export const getPaidCosts = (asset: AssetDefinition, version: number): AssetCost[] =>
+  asset.versions.filter(v => v.version <= version).map(v => v.cost);
+
+const emptyCategory = (): CategorySpending => ({ coins: 0, materials: {}, items: 0 });
+
+/**
+ * Add up what the city's items cost. Stored items count too: they were paid
+ * for when placed and come back for free.
+ */
+export const calculateSpending = (
+  items: { type: string; version: number }[],
+  assets: AssetDefinition[],
+  materials: Material[]
+): Spending => {
+  const byCategory = Object.fromEntries(
+    ASSET_CATEGORIES.map(category => [category, emptyCategory()])
+  ) as Record<AssetCategory, CategorySpending>;
+
+  items.forEach(item => {
+    const asset = findAsset(assets, item.type);
+    if (!asset) return;
+
+    const spending = byCategory[asset.category];
+    spending.items += 1;
+    getPaidCosts(asset, item.version).forEach(cost => {
+      spending.coins += costInCoins(cost, materials);
+      Object.entries(cost.materials).forEach(([id, amount]) => {
+        spending.materials[id] = (spending.materials[id] ?? 0) + amount;
+      });
+    });
+  });
+
+  const total = ASSET_CATEGORIES.reduce((sum, category) => sum + byCategory[category].coins, 0);
+  return { total, byCategory };
+};
+
+/**
+ * Whether a price fits in what is left. A null budget means no limit.
+ */
+export const canAfford = (price: number, spent: number, budget: number | null) =>
+  budget === null || spent + price <= budget;
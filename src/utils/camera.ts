@@ -0,0 +1,138 @@
+import type * as PIXI from 'pixi.js';
+
+// Zoom range, relative to showing the whole city
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 4;
+
+// Zoom change per zoom button press
+export const ZOOM_STEP = 1.25;
+
+// Part of the world shown on screen, in world coordinates
+export interface ViewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Camera {
+  // World pixels to screen pixels, including the zoom
+  getScale: () => number;
+  // 1 shows the whole city
+  getZoom: () => number;
+  getViewRect: () => ViewRect;
+  toWorld: (screen: { x: number; y: number }) => { x: number; y: number };
+  toScreen: (world: { x: number; y: number }) => { x: number; y: number };
+  // Size of the screen area the world is drawn in
+  setViewport: (width: number, height: number) => void;
+  // Zoom keeping the world point under a screen point (the middle by default) in place
+  zoomTo: (zoom: number, screenPoint?: { x: number; y: number }) => void;
+  // Move the view by a distance in screen pixels
+  panBy: (dx: number, dy: number) => void;
+  centerOn: (world: { x: number; y: number }) => void;
+  // Show the whole city
+  fit: () => void;
+  // Call a listener after every change; returns a function that removes it
+  subscribe: (listener: () => void) => () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Camera over a world of a fixed size. It moves and scales the container
+ * holding the world, and converts between screen and world coordinates.
+ */
+export const createCamera = (
+  container: PIXI.Container,
+  world: { width: number; height: number }
+): Camera => {
+  const viewport = { width: world.width, height: world.height };
+  const center = { x: world.width / 2, y: world.height / 2 };
+  let zoom = 1;
+  const listeners = new Set<() => void>();
+
+  const fitScale = () => Math.min(viewport.width / world.width, viewport.height / world.height) || 1;
+  const getScale = () => fitScale() * zoom;
+
+  // Keep the view on the world: centred when it shows all of an axis, inside it otherwise
+  const clampCenter = () => {
+    const halfWidth = viewport.width / 2 / getScale();
+    const halfHeight = viewport.height / 2 / getScale();
+    center.x = halfWidth * 2 >= world.width ? world.width / 2 : clamp(center.x, halfWidth, world.width - halfWidth);
+    center.y = halfHeight * 2 >= world.height ? world.height / 2 : clamp(center.y, halfHeight, world.height - halfHeight);
+  };
+
+  const apply = () => {
+    clampCenter();
+    const scale = getScale();
+    container.scale.set(scale);
+    container.position.set(viewport.width / 2 - center.x * scale, viewport.height / 2 - center.y * scale);
+    listeners.forEach(listener => listener());
+  };
+
+  const toWorld = (screen: { x: number; y: number }) => ({
+    x: center.x + (screen.x - viewport.width / 2) / getScale(),
+    y: center.y + (screen.y - viewport.height / 2) / getScale(),
+  });
+
+  const toScreen = (point: { x: number; y: number }) => ({
+    x: viewport.width / 2 + (point.x - center.x) * getScale(),
+    y: viewport.height / 2 + (point.y - center.y) * getScale(),
+  });
+
+  apply();
+
+  return {
+    getScale,
+    getZoom: () => zoom,
+
+    getViewRect() {
+      const topLeft = toWorld({ x: 0, y: 0 });
+      const scale = getScale();
+      return { ...topLeft, width: viewport.width / scale, height: viewport.height / scale };
+    },
+
+    toWorld,
+    toScreen,
+
+    setViewport(width, height) {
+      viewport.width = width;
+      viewport.height = height;
+      apply();
+    },
+
+    zoomTo(nextZoom, screenPoint = { x: viewport.width / 2, y: viewport.height / 2 }) {
+      const anchor = toWorld(screenPoint);
+      zoom = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM);
+      center.x = anchor.x - (screenPoint.x - viewport.width / 2) / getScale();
+      center.y = anchor.y - (screenPoint.y - viewport.height / 2) / getScale();
+      apply();
+    },
+
+    panBy(dx, dy) {
+      center.x -= dx / getScale();
+      center.y -= dy / getScale();
+      apply();
+    },
+
+    centerOn(point) {
+      center.x = point.x;
+      center.y = point.y;
+      apply();
+    },
+
+    fit() {
+      zoom = 1;
+      center.x = world.width / 2;
+      center.y = world.height / 2;
+      apply();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
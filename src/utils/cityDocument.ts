@@ -0,0 +1,179 @@
+import type { Layer, Point, RoadCell, TerrainMap } from '../types/city';
+import type { CityDocument, StorageItem } from '../types/project';
+import { decodeTerrain } from './terrain';
+
+// Thrown when stored data doesn't describe a valid city
+export class CityDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CityDocumentError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (record: Record<string, unknown>, key: string, path: string): number => {
+  const value = record[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new CityDocumentError(`${path}.${key} must be a number`);
+  }
+  return value;
+};
+
+const readString = (record: Record<string, unknown>, key: string, path: string): string => {
+  const value = record[key];
+  if (typeof value !== 'string') {
+    throw new CityDocumentError(`${path}.${key} must be a string`);
+  }
+  return value;
+};
+
+const readBoolean = (record: Record<string, unknown>, key: string, path: string): boolean => {
+  const value = record[key];
+  if (typeof value !== 'boolean') {
+    throw new CityDocumentError(`${path}.${key} must be a boolean`);
+  }
+  return value;
+};
+
+const readArray = (record: Record<string, unknown>, key: string, path: string): unknown[] => {
+  const value = record[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new CityDocumentError(`${path}.${key} must be an array`);
+  }
+  return value;
+};
+
+// Read the properties layers and storage items have in common
+const readLayerProperties = (value: Record<string, unknown>, path: string) => {
+  const properties: Omit<Layer, 'id' | 'position' | 'zIndex' | 'pointId' | 'groupId'> = {
+    type: readString(value, 'type', path),
+    scale: readNumber(value, 'scale', path),
+    opacity: readNumber(value, 'opacity', path),
+    locked: readBoolean(value, 'locked', path),
+    visible: readBoolean(value, 'visible', path),
+    version: readNumber(value, 'version', path),
+    texturePath: readString(value, 'texturePath', path),
+  };
+
+  // Optional fields are only present when they were set
+  if (value.rotation !== undefined) properties.rotation = readNumber(value, 'rotation', path);
+  if (value.flipX !== undefined) properties.flipX = readBoolean(value, 'flipX', path);
+  if (value.flipY !== undefined) properties.flipY = readBoolean(value, 'flipY', path);
+
+  return properties;
+};
+
+/**
+ * Validate a layer read from storage, copying only the known fields
+ */
+export const parseLayer = (value: unknown, path = 'layer'): Layer => {
+  if (!isRecord(value)) throw new CityDocumentError(`${path} must be an object`);
+  if (!isRecord(value.position)) throw new CityDocumentError(`${path}.position must be an object`);
+
+  const layer: Layer = {
+    id: readString(value, 'id', path),
+    position: {
+      x: readNumber(value.position, 'x', `${path}.position`),
+      y: readNumber(value.position, 'y', `${path}.position`),
+    },
+    zIndex: readNumber(value, 'zIndex', path),
+    ...readLayerProperties(value, path),
+  };
+
+  if (value.pointId !== undefined) layer.pointId = readString(value, 'pointId', path);
+  if (value.groupId !== undefined) layer.groupId = readString(value, 'groupId', path);
+
+  return layer;
+};
+
+/**
+ * Validate a map point read from storage
+ */
+export const parsePoint = (value: unknown, path = 'point'): Point => {
+  if (!isRecord(value)) throw new CityDocumentError(`${path} must be an object`);
+
+  const x = readNumber(value, 'x', path);
+  const y = readNumber(value, 'y', path);
+  const type = readString(value, 'type', path);
+
+  // Points saved before they had ids get one derived from where they are
+  const id = value.id !== undefined ? readString(value, 'id', path) : `${type}_${x}_${y}`;
+  const point: Point = { id, x, y, type };
+
+  if (value.name !== undefined) point.name = readString(value, 'name', path);
+
+  return point;
+};
+
+/**
+ * Validate a road cell read from storage
+ */
+export const parseRoadCell = (value: unknown, path = 'road'): RoadCell => {
+  if (!isRecord(value)) throw new CityDocumentError(`${path} must be an object`);
+
+  const column = readNumber(value, 'column', path);
+  const row = readNumber(value, 'row', path);
+  if (!Number.isInteger(column) || !Number.isInteger(row)) {
+    throw new CityDocumentError(`${path} must be on whole grid cells`);
+  }
+  return { column, row };
+};
+
+/**
+ * Validate painted terrain read from storage
+ */
+export const parseTerrain = (value: unknown, path = 'terrain'): TerrainMap => {
+  if (!isRecord(value)) throw new CityDocumentError(`${path} must be an object`);
+
+  const terrain = {
+    columns: readNumber(value, 'columns', path),
+    rows: readNumber(value, 'rows', path),
+    runs: readString(value, 'runs', path),
+  };
+  if (!Number.isInteger(terrain.columns) || !Number.isInteger(terrain.rows) || terrain.columns < 1 || terrain.rows < 1) {
+    throw new CityDocumentError(`${path} must have whole, positive columns and rows`);
+  }
+  if (!decodeTerrain(terrain)) throw new CityDocumentError(`${path}.runs don't fit its grid`);
+  return terrain;
+};
+
+/**
+ * Validate a storage bar item read from storage
+ */
+export const parseStorageItem = (value: unknown, path = 'storageItem'): StorageItem => {
+  if (!isRecord(value)) throw new CityDocumentError(`${path} must be an object`);
+
+  return {
+    id: readString(value, 'id', path),
+    ...readLayerProperties(value, path),
+  };
+};
+
+/**
+ * Validate the parts of a city document, which may be stored separately
+ */
+export const parseCityDocument = (value: unknown): CityDocument => {
+  if (!isRecord(value)) throw new CityDocumentError('city must be an object');
+
+  return {
+    layers: readArray(value, 'layers', 'city').map((layer, i) => parseLayer(layer, `city.layers[${i}]`)),
+    mapPoints: readArray(value, 'mapPoints', 'city').map((point, i) => parsePoint(point, `city.mapPoints[${i}]`)),
+    storageItems: readArray(value, 'storageItems', 'city').map((item, i) => parseStorageItem(item, `city.storageItems[${i}]`)),
+    // Cities saved before roads existed have none
+    roads: readArray(value, 'roads', 'city').map((road, i) => parseRoadCell(road, `city.roads[${i}]`)),
+    // ...or terrain
+    terrain: value.terrain == null ? null : parseTerrain(value.terrain, 'city.terrain'),
+    // Cities saved before map templates existed have none
+    mapTemplateId: value.mapTemplateId == null ? null : readString(value, 'mapTemplateId', 'city'),
+    // ...and cities from before budgets have no limit
+    budget: value.budget == null ? null : readNumber(value, 'budget', 'city'),
+  };
+};
+
+/**
+ * Copy a city document into plain data that serialises without loss
+ */
+export const toCityDocument = (city: CityDocument): CityDocument => parseCityDocument(city);
@@ -0,0 +1,130 @@
+import type { Layer } from '../types/city';
+import type { CityDocument } from '../types/project';
+
+// People living in a house and jobs in a shop, for each version of it
+const RESIDENTS_PER_HOUSE = 4;
+const JOBS_PER_SHOP = 3;
+
+// How close (in world pixels) things must be to a house to count for it
+const HOSPITAL_RANGE = 480;
+const SHOP_RANGE = 320;
+const PARK_RANGE = 224;
+
+// A house's happiness out of 100: a base, plus points for what's nearby.
+// Every tree counts, up to a few.
+const BASE_HAPPINESS = 40;
+const POINTS_PER_TREE = 10;
+const MAX_TREES_COUNTED = 3;
+const BENCH_POINTS = 10;
+const SHOP_POINTS = 10;
+const HOSPITAL_POINTS = 10;
+
+// Happiness from which a face smiles, and below which it frowns
+const HAPPY_FROM = 70;
+const OKAY_FROM = 50;
+
+// Something near a house (or missing) that makes it happier
+export type HappinessFactorKind = 'trees' | 'bench' | 'shop' | 'hospital';
+
+export interface HappinessFactor {
+  kind: HappinessFactorKind;
+  // How many are in range; at least one means the house gets the points
+  count: number;
+  points: number;
+}
+
+export interface HouseStats {
+  layerId: string;
+  residents: number;
+  happiness: number;
+  factors: HappinessFactor[];
+}
+
+export interface CityStats {
+  population: number;
+  jobs: number;
+  // Share of houses (0–1) close enough to a hospital; 0 with no houses
+  healthCoverage: number;
+  // Average house happiness out of 100, or null with no houses
+  happiness: number | null;
+  // By layer id
+  houses: Record<string, HouseStats>;
+}
+
+export type Mood = 'happy' | 'okay' | 'sad';
+
+const distance = (a: Layer, b: Layer) => Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
+
+const countInRange = (house: Layer, others: Layer[], range: number) =>
+  others.filter(other => distance(house, other) <= range).length;
+
+/**
+ * Population, jobs, health coverage and happiness from what is placed where.
+ * Reads nothing but the city, so the same city always gives the same stats.
+ * Hidden items don't count.
+ */
+export const computeCityStats = (city: Pick<CityDocument, 'layers'>): CityStats => {
+  const visible = city.layers.filter(layer => layer.visible);
+  const ofType = (type: string) => visible.filter(layer => layer.type === type);
+  const houses = ofType('house');
+  const shops = ofType('shop');
+  const hospitals = ofType('hospital');
+  const trees = ofType('tree');
+  const benches = ofType('bench');
+
+  const houseStats = houses.map((house): HouseStats => {
+    const treeCount = countInRange(house, trees, PARK_RANGE);
+    const benchCount = countInRange(house, benches, PARK_RANGE);
+    const shopCount = countInRange(house, shops, SHOP_RANGE);
+    const hospitalCount = countInRange(house, hospitals, HOSPITAL_RANGE);
+
+    const factors: HappinessFactor[] = [
+      { kind: 'trees', count: treeCount, points: Math.min(treeCount, MAX_TREES_COUNTED) * POINTS_PER_TREE },
+      { kind: 'bench', count: benchCount, points: benchCount > 0 ? BENCH_POINTS : 0 },
+      { kind: 'shop', count: shopCount, points: shopCount > 0 ? SHOP_POINTS : 0 },
+      { kind: 'hospital', count: hospitalCount, points: hospitalCount > 0 ? HOSPITAL_POINTS : 0 },
+    ];
+
+    return {
+      layerId: house.id,
+      residents: RESIDENTS_PER_HOUSE * house.version,
+      happiness: factors.reduce((sum, factor) => sum + factor.points, BASE_HAPPINESS),
+      factors,
+    };
+  });
+
+  const covered = houseStats.filter(house => house.factors.some(f => f.kind === 'hospital' && f.count > 0));
+
+  return {
+    population: houseStats.reduce((sum, house) => sum + house.residents, 0),
+    jobs: shops.reduce((sum, shop) => sum + JOBS_PER_SHOP * shop.version, 0),
+    healthCoverage: houses.length > 0 ? covered.length / houses.length : 0,
+    happiness:
+      houses.length > 0
+        ? Math.round(houseStats.reduce((sum, house) => sum + house.happiness, 0) / houses.length)
+        : null,
+    houses: Object.fromEntries(houseStats.map(house => [house.layerId, house])),
+  };
+};
+
+/**
+ * Which face to show for a happiness score
+ */
+export const getMood = (happiness: number): Mood =>
+  happiness >= HAPPY_FROM ? 'happy' : happiness >= OKAY_FROM ? 'okay' : 'sad';
+
+/**
+ * Short, kid-friendly reason a house is (or isn't) happier, e.g. "No shop nearby"
+ */
+export const describeFactor = ({ kind, count }: HappinessFactor) => {
+  switch (kind) {
+    case 'trees':
+      return count === 0 ? 'No trees nearby' : count === 1 ? 'A tree nearby' : `${count} trees nearby`;
+    case 'bench':
+      return count > 0 ? 'A bench to sit on' : 'No bench nearby';
+    case 'shop':
+      return count > 0 ? 'A shop nearby' : 'No shop nearby';
+    case 'hospital':
+      return count > 0 ? 'Close to a hospital' : 'No hospital nearby';
+  }
+};
@@ -0,0 +1,107 @@
+import type { Layer } from '../types/city';
+import type { AssetCategory, AssetDefinition } from '../types/asset';
+import { findAsset } from './assetManifest';
+
+// World pixels per grid cell; asset footprints are measured in cells
+export const GRID_CELL_SIZE = 64;
+
+// Items that take up their cells. Everything else (animals, benches, drawings)
+// can share a cell with anything.
+const SOLID_CATEGORIES: AssetCategory[] = ['buildings', 'nature'];
+
+// What the grid needs to know about a layer to find its cells
+export type FootprintLayer = Pick<Layer, 'id' | 'type' | 'position' | 'scale'>;
+
+// A block of grid cells
+export interface CellRect {
+  column: number;
+  row: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Move a position onto the nearest grid corner
+ */
+export const snapToGrid = (position: { x: number; y: number }) => ({
+  x: Math.round(position.x / GRID_CELL_SIZE) * GRID_CELL_SIZE,
+  y: Math.round(position.y / GRID_CELL_SIZE) * GRID_CELL_SIZE,
+});
+
+/**
+ * Whether items of an asset keep other solid items out of their cells
+ */
+export const isSolid = (asset: AssetDefinition | null) => !!asset && SOLID_CATEGORIES.includes(asset.category);
+
+/**
+ * Cells a layer covers: its asset's footprint, grown or shrunk with the layer's
+ * scale, starting at the cell under its top-left corner
+ */
+export const getFootprintCells = (
+  layer: Pick<Layer, 'position' | 'scale'>,
+  asset: AssetDefinition
+): CellRect => {
+  const factor = layer.scale / asset.defaultScale;
+  return {
+    column: Math.round(layer.position.x / GRID_CELL_SIZE),
+    row: Math.round(layer.position.y / GRID_CELL_SIZE),
+    width: Math.max(1, Math.round(asset.footprint.width * factor)),
+    height: Math.max(1, Math.round(asset.footprint.height * factor)),
+  };
+};
+
+const cellKey = (column: number, row: number) => `${column},${row}`;
+
+// Every cell key in a block
+const cellKeys = ({ column, row, width, height }: CellRect) => {
+  const keys: string[] = [];
+  for (let x = column; x < column + width; x++) {
+    for (let y = row; y < row + height; y++) keys.push(cellKey(x, y));
+  }
+  return keys;
+};
+
+/**
+ * Occupancy map: the id of the solid layer in each taken cell, by "column,row"
+ */
+export const createOccupancyMap = (layers: FootprintLayer[], assets: AssetDefinition[]) => {
+  const occupancy = new Map<string, string>();
+  layers.forEach(layer => {
+    const asset = findAsset(assets, layer.type);
+    if (!asset || !isSolid(asset)) return;
+    cellKeys(getFootprintCells(layer, asset)).forEach(key => occupancy.set(key, layer.id));
+  });
+  return occupancy;
+};
+
+/**
+ * The solid layer that one of the changed layers would overlap, or null when
+ * they all fit. Changed layers stand in for the layers with the same id, and
+ * are checked against each other too.
+ */
+export const findOverlap = (
+  changed: FootprintLayer[],
+  layers: FootprintLayer[],
+  assets: AssetDefinition[]
+): FootprintLayer | null => {
+  const changedIds = new Set(changed.map(layer => layer.id));
+  const occupancy = createOccupancyMap(layers.filter(layer => !changedIds.has(layer.id)), assets);
+  const byId = new Map([...layers, ...changed].map(layer => [layer.id, layer]));
+
+  for (const layer of changed) {
+    const asset = findAsset(assets, layer.type);
+    if (!asset || !isSolid(asset)) continue;
+
+    const keys = cellKeys(getFootprintCells(layer, asset));
+    const takenBy = keys.map(key => occupancy.get(key)).find(id => id !== undefined);
+    if (takenBy) return byId.get(takenBy) ?? null;
+    keys.forEach(key => occupancy.set(key, layer.id));
+  }
+  return null;
+};
+
+/**
+ * A short, kid-friendly explanation of why an item can't go where it was put
+ */
+export const describeOverlap = (blocking: AssetDefinition | null) =>
+  `${blocking ? `The ${blocking.name.toLowerCase()}` : 'Something'} is already there!`;
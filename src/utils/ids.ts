@@ -0,0 +1,11 @@
+// Fallback for browsers without crypto.randomUUID: time, a per-session counter
+// and randomness, so ids made in the same millisecond still differ
+let counter = 0;
+const fallbackId = () =>
+  `${Date.now().toString(36)}${(counter++).toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * A new unique id with a readable prefix, e.g. "layer_1b9d6bcd-…"
+ */
+export const createId = (prefix: string) =>
+  `${prefix}_${typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : fallbackId()}`;
@@ -0,0 +1,77 @@
+import type { Layer, Point } from '../types/city';
+
+// How close (in world pixels) an item's anchor must be to a map point to snap onto it
+export const POINT_SNAP_RADIUS = 90;
+
+// Map point type that takes any kind of item
+const OPEN_POINT_TYPE = 'open';
+
+// The map point an item would land on, and whether it may go there
+export interface SocketMatch {
+  point: Point;
+  allowed: boolean;
+  // Why the item can't go there, for a friendly message
+  reason?: 'occupied' | 'incompatible';
+}
+
+/**
+ * Whether an item of the given type fits on a map point
+ */
+export const fitsPoint = (point: Point, layerType: string) =>
+  point.type === OPEN_POINT_TYPE || point.type === layerType;
+
+/**
+ * Whether a layer already sits on the point. `ignoreLayerId` leaves out the
+ * layer being moved, so it can be dropped back on its own spot.
+ */
+export const isPointOccupied = (point: Point, layers: Layer[], ignoreLayerId?: string | null) =>
+  layers.some(layer => layer.pointId === point.id && layer.id !== ignoreLayerId);
+
+/**
+ * Find the nearest map point within snapping distance of an item's anchor
+ */
+export const findSocket = (
+  anchorPoint: { x: number; y: number },
+  layerType: string,
+  points: Point[],
+  layers: Layer[],
+  ignoreLayerId?: string | null
+): SocketMatch | null => {
+  let point: Point | null = null;
+  let nearestDistance = POINT_SNAP_RADIUS;
+
+  for (const candidate of points) {
+    const distance = Math.hypot(candidate.x - anchorPoint.x, candidate.y - anchorPoint.y);
+    if (distance <= nearestDistance) {
+      point = candidate;
+      nearestDistance = distance;
+    }
+  }
+
+  if (!point) return null;
+
+  if (!fitsPoint(point, layerType)) return { point, allowed: false, reason: 'incompatible' };
+  if (isPointOccupied(point, layers, ignoreLayerId)) return { point, allowed: false, reason: 'occupied' };
+  return { point, allowed: true };
+};
+
+/**
+ * Top-left layer position that puts an item's anchor (0–1 across its size,
+ * the centre by default) on a point
+ */
+export const positionOnPoint = (
+  point: { x: number; y: number },
+  size: { width: number; height: number },
+  anchor: { x: number; y: number } = { x: 0.5, y: 0.5 }
+) => ({
+  x: point.x - size.width * anchor.x,
+  y: point.y - size.height * anchor.y,
+});
+
+/**
+ * A short, kid-friendly explanation of why an item can't go on a point
+ */
+export const describeBlockedSocket = (match: SocketMatch) =>
+  match.reason === 'occupied'
+    ? `${match.point.name || 'This spot'} is already taken!`
+    : `${match.point.name || 'This spot'} is only for a ${match.point.type}.`;
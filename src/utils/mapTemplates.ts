@@ -0,0 +1,58 @@
+import type { MapTemplate } from '../types/mapTemplate';
+
+const BACKGROUNDS_PATH = '/assets/backgrounds';
+
+/**
+ * Maps bundled with the app, offered when starting a new city. Point types
+ * other than "open" are asset ids from the catalogue, or nothing could fill them.
+ */
+export const MAP_TEMPLATES: MapTemplate[] = [
+  {
+    id: 'seaside_town',
+    title: 'Seaside Town',
+    background: `${BACKGROUNDS_PATH}/seaside_town.svg`,
+    thumbnail: `${BACKGROUNDS_PATH}/seaside_town.svg`,
+    budget: 500,
+    points: [
+      { id: 'seaside_hospital', x: 300, y: 400, type: 'hospital', name: 'City Hospital' },
+      { id: 'seaside_park', x: 780, y: 300, type: 'tree', name: 'Town Park' },
+      { id: 'seaside_bakery', x: 1040, y: 520, type: 'shop', name: 'Sweet Bakery' },
+      { id: 'seaside_open_1', x: 500, y: 780, type: 'open', name: 'Open Spot 1' },
+      { id: 'seaside_open_2', x: 1300, y: 420, type: 'open', name: 'Harbour Spot' },
+      { id: 'seaside_open_3', x: 1000, y: 880, type: 'open', name: 'Open Spot 3' },
+    ],
+  },
+  {
+    id: 'river_valley',
+    title: 'River Valley',
+    background: `${BACKGROUNDS_PATH}/river_valley.svg`,
+    thumbnail: `${BACKGROUNDS_PATH}/river_valley.svg`,
+    budget: 400,
+    points: [
+      { id: 'river_hospital', x: 1500, y: 560, type: 'hospital', name: 'Valley Hospital' },
+      { id: 'river_park', x: 520, y: 480, type: 'tree', name: 'Riverside Park' },
+      { id: 'river_bakery', x: 680, y: 860, type: 'shop', name: 'Mill Bakery' },
+      { id: 'river_open_1', x: 320, y: 620, type: 'open', name: 'West Bank' },
+      { id: 'river_open_2', x: 1380, y: 320, type: 'open', name: 'East Bank' },
+      { id: 'river_open_3', x: 1240, y: 880, type: 'open', name: 'Meadow Spot' },
+    ],
+  },
+  {
+    id: 'empty_meadow',
+    title: 'Empty Meadow',
+    background: `${BACKGROUNDS_PATH}/empty_meadow.svg`,
+    thumbnail: `${BACKGROUNDS_PATH}/empty_meadow.svg`,
+    budget: 300,
+    // No sockets: everything can go anywhere
+    points: [],
+  },
+];
+
+// Map used when a city is started without going through the picker
+export const DEFAULT_MAP_TEMPLATE_ID = 'seaside_town';
+
+/**
+ * Look up a bundled map by id
+ */
+export const getMapTemplate = (id: string | null | undefined): MapTemplate | null =>
+  MAP_TEMPLATES.find(template => template.id === id) ?? null;
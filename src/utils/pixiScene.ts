@@ -0,0 +1,241 @@
+import * as PIXI from 'pixi.js';
+
+import type { Layer, Point, RoadCell } from '../types/city';
+import { GRID_CELL_SIZE } from './grid';
+import { getRoadTile, roadKey, type RoadPiece, type RoadTile } from './roads';
+import { getTerrainType, TERRAIN_CELL_SIZE, TERRAIN_COLORS, type TerrainGrid } from './terrain';
+import { getUploadId } from './uploadAssets';
+import { getUploadRepository } from './uploadRepository';
+
+// The fixed size of the city world
+export const CANVAS_WIDTH = 1920;
+export const CANVAS_HEIGHT = 1080;
+export const DEFAULT_BG_COLOR = 0xc2e3f8; // Light blue background
+
+const POINT_RADIUS = 15;
+const SELECTION_COLOR = 0x3b82f6;
+const SOCKET_CUE_RADIUS = 40;
+const SOCKET_ALLOWED_COLOR = 0x22c55e;
+const SOCKET_BLOCKED_COLOR = 0xf87171;
+const ROAD_WIDTH = 40;
+const ROAD_COLOR = 0x6b7280;
+const ROAD_MARKING_COLOR = 0xffffff;
+const FLOWER_COLORS = [0xf472b6, 0xfacc15, 0xffffff];
+
+// Which sides of its cell each road piece reaches, before it is turned,
+// as quarter turns clockwise from north
+const ROAD_ARMS: Record<RoadPiece, number[]> = {
+  single: [],
+  end: [0],
+  straight: [0, 2],
+  corner: [0, 1],
+  tee: [1, 2, 3],
+  cross: [0, 1, 2, 3],
+};
+
+// Texture cache shared by the live canvas and the exporter
+const textureCache = new Map<string, PIXI.Texture>();
+
+// Make a texture from an uploaded drawing's stored image
+const loadUploadTexture = async (uploadId: string): Promise<PIXI.Texture> => {
+  const image = await getUploadRepository().getImage(uploadId);
+  if (!image) throw new Error(`Upload ${uploadId} not found`);
+
+  // The decoded image keeps its pixels, so the blob URL can go once it's decoded
+  const url = URL.createObjectURL(image);
+  try {
+    const element = new Image();
+    element.src = url;
+    await element.decode();
+    return PIXI.Texture.from(element);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Load a texture once and reuse it afterwards. Paths of uploaded drawings are
+ * read from the upload repository.
+ */
+export const loadTexture = async (texturePath: string): Promise<PIXI.Texture> => {
+  const cached = textureCache.get(texturePath);
+  if (cached) return cached;
+
+  const uploadId = getUploadId(texturePath);
+  const texture = uploadId
+    ? await loadUploadTexture(uploadId)
+    : await PIXI.Assets.load<PIXI.Texture>(texturePath);
+  textureCache.set(texturePath, texture);
+  return texture;
+};
+
+/**
+ * Put a sprite at a layer position. Sprites pivot around their centre so
+ * rotating and flipping keep them in place, while a layer's position stays
+ * the top-left corner of the unrotated sprite.
+ */
+export const placeSprite = (sprite: PIXI.Sprite, position: { x: number; y: number }, scale: number) => {
+  sprite.position.set(position.x + sprite.pivot.x * scale, position.y + sprite.pivot.y * scale);
+};
+
+/**
+ * Copy a layer's visual properties onto its sprite
+ */
+export const applyLayerToSprite = (sprite: PIXI.Sprite, layer: Layer) => {
+  sprite.pivot.set(sprite.texture.width / 2, sprite.texture.height / 2);
+  sprite.scale.set(layer.scale * (layer.flipX ? -1 : 1), layer.scale * (layer.flipY ? -1 : 1));
+  placeSprite(sprite, layer.position, layer.scale);
+  sprite.rotation = layer.rotation || 0;
+  sprite.alpha = layer.opacity;
+  sprite.zIndex = layer.zIndex;
+  sprite.visible = layer.visible;
+};
+
+/**
+ * Outline drawn around the selected sprite, in the sprite's own coordinates
+ */
+export const createSelectionOutline = (sprite: PIXI.Sprite, color: number = SELECTION_COLOR): PIXI.Graphics => {
+  const lineWidth = 3 / (Math.abs(sprite.scale.x) || 1);
+  return new PIXI.Graphics()
+    .rect(0, 0, sprite.texture.width, sprite.texture.height)
+    .stroke({ width: lineWidth, color });
+};
+
+// Marker colour for each kind of map point
+const getPointColor = (type: string): number => {
+  switch (type) {
+    case 'hospital':
+      return 0xff0000; // Red
+    case 'shop':
+    case 'bakery':
+      return 0xffa500; // Orange
+    case 'tree':
+    case 'school':
+      return 0x0000ff; // Blue
+    case 'open':
+    default:
+      return 0x00ff00; // Green
+  }
+};
+
+/**
+ * Coloured circle marking a predefined map point. Occupied points are drawn
+ * solid with a white dot so free spots stand out.
+ */
+export const createPointMarker = (point: Point, occupied = false): PIXI.Graphics => {
+  const graphics = new PIXI.Graphics()
+    .circle(0, 0, POINT_RADIUS)
+    .fill({ color: getPointColor(point.type), alpha: occupied ? 0.9 : 0.5 })
+    .stroke({ width: 2, color: 0xffffff });
+
+  if (occupied) graphics.circle(0, 0, POINT_RADIUS / 3).fill(0xffffff);
+
+  graphics.position.set(point.x, point.y);
+  graphics.alpha = 0.7;
+  return graphics;
+};
+
+/**
+ * Ring shown around a map point while an item is dragged near it: green when
+ * the item will snap on, a soft red with a cross when it can't go there
+ */
+export const createSocketCue = (point: Point, allowed: boolean): PIXI.Graphics => {
+  const color = allowed ? SOCKET_ALLOWED_COLOR : SOCKET_BLOCKED_COLOR;
+  const graphics = new PIXI.Graphics()
+    .circle(0, 0, SOCKET_CUE_RADIUS)
+    .fill({ color, alpha: 0.2 })
+    .stroke({ width: 4, color });
+
+  if (!allowed) {
+    const arm = SOCKET_CUE_RADIUS / 3;
+    graphics
+      .moveTo(-arm, -arm).lineTo(arm, arm)
+      .moveTo(arm, -arm).lineTo(-arm, arm)
+      .stroke({ width: 6, color, cap: 'round' });
+  }
+
+  graphics.position.set(point.x, point.y);
+  return graphics;
+};
+
+/**
+ * One road cell, centred on the origin: a patch of road with an arm and a lane
+ * marking out to each connected side
+ */
+export const createRoadTile = (tile: RoadTile): PIXI.Graphics => {
+  const half = GRID_CELL_SIZE / 2;
+  const arms = ROAD_ARMS[tile.piece];
+  const graphics = new PIXI.Graphics();
+
+  // Ends and lone cells are rounded off
+  if (arms.length <= 1) graphics.circle(0, 0, ROAD_WIDTH / 2).fill(ROAD_COLOR);
+  else graphics.rect(-ROAD_WIDTH / 2, -ROAD_WIDTH / 2, ROAD_WIDTH, ROAD_WIDTH).fill(ROAD_COLOR);
+
+  arms.forEach(turns => {
+    const arm = new PIXI.Graphics()
+      .rect(-ROAD_WIDTH / 2, -half, ROAD_WIDTH, half)
+      .fill(ROAD_COLOR)
+      .moveTo(0, -half + 6)
+      .lineTo(0, -half + 22)
+      .stroke({ width: 3, color: ROAD_MARKING_COLOR });
+    arm.rotation = (turns * Math.PI) / 2;
+    graphics.addChild(arm);
+  });
+
+  graphics.rotation = (tile.quarterTurns * Math.PI) / 2;
+  return graphics;
+};
+
+/**
+ * Every road cell, each showing the piece that joins up with its neighbours
+ */
+export const createRoadNetwork = (roads: RoadCell[]): PIXI.Container => {
+  const container = new PIXI.Container();
+  const roadKeys = new Set(roads.map(roadKey));
+
+  roads.forEach(cell => {
+    const tile = createRoadTile(getRoadTile(cell, roadKeys));
+    tile.position.set((cell.column + 0.5) * GRID_CELL_SIZE, (cell.row + 0.5) * GRID_CELL_SIZE);
+    container.addChild(tile);
+  });
+  return container;
+};
+
+/**
+ * Painted terrain, one rectangle per run of matching cells along each row.
+ * Flower cells get a few blossoms on top.
+ */
+export const createTerrainGraphics = (grid: TerrainGrid): PIXI.Graphics => {
+  const graphics = new PIXI.Graphics();
+  const flowers: { x: number; y: number }[] = [];
+
+  for (let row = 0; row < grid.rows; row++) {
+    let start = 0;
+    for (let column = 1; column <= grid.columns; column++) {
+      const code = grid.cells[row * grid.columns + start];
+      if (column < grid.columns && grid.cells[row * grid.columns + column] === code) continue;
+
+      const terrain = getTerrainType(code);
+      if (terrain) {
+        graphics
+          .rect(start * TERRAIN_CELL_SIZE, row * TERRAIN_CELL_SIZE, (column - start) * TERRAIN_CELL_SIZE, TERRAIN_CELL_SIZE)
+          .fill(TERRAIN_COLORS[terrain]);
+      }
+      if (terrain === 'flowers') {
+        for (let x = start; x < column; x++) flowers.push({ x: x * TERRAIN_CELL_SIZE, y: row * TERRAIN_CELL_SIZE });
+      }
+      start = column;
+    }
+  }
+
+  // The same little pattern in every flower cell, coloured by where it is
+  flowers.forEach(({ x, y }, i) => {
+    const color = FLOWER_COLORS[(x / TERRAIN_CELL_SIZE + y / TERRAIN_CELL_SIZE) % FLOWER_COLORS.length];
+    graphics
+      .circle(x + TERRAIN_CELL_SIZE * 0.3, y + TERRAIN_CELL_SIZE * 0.35, 3)
+      .circle(x + TERRAIN_CELL_SIZE * 0.7, y + TERRAIN_CELL_SIZE * 0.7, 3)
+      .fill(i % 2 === 0 ? color : FLOWER_COLORS[0]);
+  });
+
+  return graphics;
+};
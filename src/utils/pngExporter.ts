@@ -0,0 +1,175 @@
+import * as PIXI from 'pixi.js';
+
+import type { Layer, Point, RoadCell } from '../types/city';
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  DEFAULT_BG_COLOR,
+  applyLayerToSprite,
+  createPointMarker,
+  createRoadNetwork,
+  createTerrainGraphics,
+  createSelectionOutline,
+  loadTexture,
+} from './pixiScene';
+import { isPointOccupied } from './mapSockets';
+import type { TerrainGrid } from './terrain';
+
+// Output sizes offered on the export screen
+export const EXPORT_SIZES = {
+  native: { label: 'Screen', width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  print: { label: 'Print', width: CANVAS_WIDTH * 2, height: CANVAS_HEIGHT * 2 },
+  thumbnail: { label: 'Small', width: CANVAS_WIDTH / 4, height: CANVAS_HEIGHT / 4 },
+} as const;
+
+export type ExportSize = keyof typeof EXPORT_SIZES;
+
+export interface ExportOptions {
+  size: ExportSize;
+  showMapPoints: boolean;
+  showSelection: boolean;
+  showCaption: boolean;
+}
+
+// The parts of a city the exporter draws
+export interface ExportScene {
+  layers: Layer[];
+  mapPoints: Point[];
+  roads?: RoadCell[];
+  terrain?: TerrainGrid | null;
+  selectedLayerId?: string | null;
+  backgroundColor?: number;
+  // Map template background image, drawn over the background colour
+  background?: string | null;
+}
+
+const CAPTION_TEXT = 'Made in Maetopia';
+
+// How long (ms) a download keeps its blob URL before it is released
+const DOWNLOAD_REVOKE_DELAY = 1000;
+
+// Build the full-size world into a container
+const buildScene = async (scene: ExportScene, options: ExportOptions): Promise<PIXI.Container> => {
+  const container = new PIXI.Container();
+
+  container.addChild(
+    new PIXI.Graphics()
+      .rect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT)
+      .fill(scene.backgroundColor ?? DEFAULT_BG_COLOR)
+  );
+
+  if (scene.background) {
+    const texture = await loadTexture(scene.background).catch(error => {
+      console.error(`Failed to load map background ${scene.background}:`, error);
+      return null;
+    });
+    if (texture) {
+      const backgroundSprite = new PIXI.Sprite(texture);
+      backgroundSprite.setSize(CANVAS_WIDTH, CANVAS_HEIGHT);
+      container.addChild(backgroundSprite);
+    }
+  }
+
+  // Painted ground, then roads, run under everything standing on the map
+  if (scene.terrain) container.addChild(createTerrainGraphics(scene.terrain));
+  if (scene.roads) container.addChild(createRoadNetwork(scene.roads));
+
+  if (options.showMapPoints) {
+    scene.mapPoints.forEach(point => container.addChild(createPointMarker(point, isPointOccupied(point, scene.layers))));
+  }
+
+  const visibleLayers = scene.layers
+    .filter(layer => layer.visible)
+    .sort((a, b) => a.zIndex - b.zIndex);
+
+  // Load every texture up front, in parallel
+  const textures = await Promise.all(
+    visibleLayers.map(layer =>
+      loadTexture(layer.texturePath).catch(error => {
+        console.error(`Failed to load texture for layer ${layer.id}:`, error);
+        return null;
+      })
+    )
+  );
+
+  visibleLayers.forEach((layer, i) => {
+    const texture = textures[i];
+    if (!texture) return;
+
+    const sprite = new PIXI.Sprite(texture);
+    applyLayerToSprite(sprite, layer);
+    if (options.showSelection && layer.id === scene.selectedLayerId) {
+      sprite.addChild(createSelectionOutline(sprite));
+    }
+    container.addChild(sprite);
+  });
+
+  return container;
+};
+
+// Draw the caption in the bottom-right corner
+const drawCaption = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const fontSize = Math.max(12, Math.round(canvas.height / 36));
+  const margin = fontSize;
+
+  context.font = `bold ${fontSize}px system-ui, sans-serif`;
+  context.textAlign = 'right';
+  context.textBaseline = 'bottom';
+  context.lineWidth = fontSize / 5;
+  context.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  context.fillStyle = '#2563eb';
+  context.strokeText(CAPTION_TEXT, canvas.width - margin, canvas.height - margin);
+  context.fillText(CAPTION_TEXT, canvas.width - margin, canvas.height - margin);
+};
+
+/**
+ * Render a city off-screen at the requested size and return it as a PNG
+ */
+export const renderCityImage = async (scene: ExportScene, options: ExportOptions): Promise<Blob> => {
+  const { width, height } = EXPORT_SIZES[options.size];
+
+  const renderer = await PIXI.autoDetectRenderer({ width, height, antialias: true, resolution: 1 });
+  const renderTexture = PIXI.RenderTexture.create({ width, height });
+  let container: PIXI.Container | null = null;
+
+  try {
+    container = await buildScene(scene, options);
+    // Render the whole world scaled to the output size
+    container.scale.set(width / CANVAS_WIDTH, height / CANVAS_HEIGHT);
+    renderer.render({ container, target: renderTexture });
+
+    // Copy into a 2D canvas so the caption can be drawn on top
+    const extracted = renderer.extract.canvas(renderTexture) as HTMLCanvasElement;
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    output.getContext('2d')?.drawImage(extracted, 0, 0, width, height);
+
+    if (options.showCaption) drawCaption(output);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      output.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    });
+  } finally {
+    // Textures are shared through the cache, so only the scene itself is destroyed
+    container?.destroy({ children: true });
+    renderTexture.destroy(true);
+    renderer.destroy();
+  }
+};
+
+/**
+ * Save a blob through the browser's download mechanism
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY);
+};
@@ -0,0 +1,106 @@
+import type { CityProject } from '../types/project';
+import { toCityDocument } from './cityDocument';
+import { deleteProject, getProject, listProjects, saveProject } from './projectStorage';
+import { isSupabaseConfigured, supabase } from './supabaseClient';
+import { createSupabaseProjectRepository } from './supabaseProjectRepository';
+
+/**
+ * Storage for saved cities, independent of where they actually live
+ */
+export interface ProjectRepository {
+  list(): Promise<CityProject[]>;
+  get(id: string): Promise<CityProject | null>;
+  save(project: CityProject): Promise<CityProject>;
+  delete(id: string): Promise<void>;
+  rename(id: string, name: string): Promise<CityProject | null>;
+}
+
+// Copy a project so callers never share objects with the repository
+const cloneProject = (project: CityProject): CityProject => ({
+  id: project.id,
+  name: project.name,
+  ...toCityDocument(project),
+  updatedAt: project.updatedAt,
+});
+
+/**
+ * Project repository that keeps everything in memory, for tests and offline development
+ */
+export const createMemoryProjectRepository = (initialProjects: CityProject[] = []): ProjectRepository => {
+  const projects = new Map(initialProjects.map(project => [project.id, cloneProject(project)]));
+
+  return {
+    async list() {
+      return [...projects.values()]
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(cloneProject);
+    },
+
+    async get(id) {
+      const project = projects.get(id);
+      return project ? cloneProject(project) : null;
+    },
+
+    async save(project) {
+      projects.set(project.id, cloneProject(project));
+      return cloneProject(project);
+    },
+
+    async delete(id) {
+      projects.delete(id);
+    },
+
+    async rename(id, name) {
+      const project = projects.get(id);
+      if (!project) return null;
+
+      const renamed = { ...project, name, updatedAt: Date.now() };
+      projects.set(id, renamed);
+      return cloneProject(renamed);
+    },
+  };
+};
+
+/**
+ * Project repository backed by IndexedDB in this browser
+ */
+export const createLocalProjectRepository = (): ProjectRepository => ({
+  list: listProjects,
+  get: getProject,
+
+  async save(project) {
+    const stored = cloneProject(project);
+    await saveProject(stored);
+    return stored;
+  },
+
+  delete: deleteProject,
+
+  async rename(id, name) {
+    const project = await getProject(id);
+    if (!project) return null;
+
+    const renamed = { ...project, name, updatedAt: Date.now() };
+    await saveProject(renamed);
+    return renamed;
+  },
+});
+
+let repository: ProjectRepository | null = null;
+
+/**
+ * Get the project repository for this environment: Supabase when it is configured,
+ * otherwise IndexedDB, falling back to memory where IndexedDB isn't available
+ */
+export const getProjectRepository = (): ProjectRepository => {
+  if (!repository) {
+    if (isSupabaseConfigured && supabase) {
+      repository = createSupabaseProjectRepository(supabase);
+    } else if (typeof indexedDB !== 'undefined') {
+      repository = createLocalProjectRepository();
+    } else {
+      repository = createMemoryProjectRepository();
+    }
+  }
+  return repository;
+};
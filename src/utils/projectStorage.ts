@@ -0,0 +1,144 @@
+import type { CityProject, CurrentCity } from '../types/project';
+import type { StoredUpload } from '../types/upload';
+
+const DB_NAME = 'maetopia';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const SESSION_STORE = 'session';
+const UPLOADS_STORE = 'uploads';
+const CURRENT_CITY_KEY = 'current';
+
+// Last write of the current city, so reads never overtake a save still in flight
+let pendingCurrentCityWrite: Promise<unknown> = Promise.resolve();
+
+// Open the Maetopia database, creating the object stores on first use
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+      if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+        db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request in its own transaction and resolve once it has committed
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+/**
+ * List all saved cities, most recently saved first
+ */
+export const listProjects = async (): Promise<CityProject[]> => {
+  const projects = await runRequest<CityProject[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Get a saved city by id, or null if it doesn't exist
+ */
+export const getProject = async (id: string): Promise<CityProject | null> => {
+  const project = await runRequest<CityProject | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+  return project || null;
+};
+
+/**
+ * Create or overwrite a saved city
+ */
+export const saveProject = async (project: CityProject): Promise<void> => {
+  await runRequest(PROJECTS_STORE, 'readwrite', store => store.put(project));
+};
+
+/**
+ * Delete a saved city
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Load the city currently open in the builder, if there is one
+ */
+export const loadCurrentCity = async (): Promise<CurrentCity | null> => {
+  await pendingCurrentCityWrite.catch(() => undefined);
+  const city = await runRequest<CurrentCity | undefined>(SESSION_STORE, 'readonly', store => store.get(CURRENT_CITY_KEY));
+  return city || null;
+};
+
+/**
+ * Store the city currently open in the builder so it survives a refresh
+ */
+export const saveCurrentCity = async (city: CurrentCity): Promise<void> => {
+  const write = runRequest(SESSION_STORE, 'readwrite', store => store.put(city, CURRENT_CITY_KEY));
+  pendingCurrentCityWrite = write;
+  await write;
+};
+
+/**
+ * Forget the city currently open in the builder so the next visit starts fresh
+ */
+export const clearCurrentCity = async (): Promise<void> => {
+  const write = runRequest(SESSION_STORE, 'readwrite', store => store.delete(CURRENT_CITY_KEY));
+  pendingCurrentCityWrite = write;
+  await write;
+};
+
+/**
+ * List all uploaded drawings, oldest first
+ */
+export const listUploads = async (): Promise<StoredUpload[]> => {
+  const uploads = await runRequest<StoredUpload[]>(UPLOADS_STORE, 'readonly', store => store.getAll());
+  return uploads.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Get an uploaded drawing with its image, or null if it doesn't exist
+ */
+export const getUpload = async (id: string): Promise<StoredUpload | null> => {
+  const upload = await runRequest<StoredUpload | undefined>(UPLOADS_STORE, 'readonly', store => store.get(id));
+  return upload || null;
+};
+
+/**
+ * Create or overwrite an uploaded drawing
+ */
+export const saveUpload = async (upload: StoredUpload): Promise<void> => {
+  await runRequest(UPLOADS_STORE, 'readwrite', store => store.put(upload));
+};
+
+/**
+ * Delete an uploaded drawing
+ */
+export const deleteUpload = async (id: string): Promise<void> => {
+  await runRequest(UPLOADS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,95 @@
+import type { RoadCell } from '../types/city';
+import { GRID_CELL_SIZE } from './grid';
+
+// What dragging across the map does with the road tool on
+export type RoadTool = 'draw' | 'erase';
+
+// Road pieces a cell can show, picked from which neighbours have road too
+export type RoadPiece = 'single' | 'end' | 'straight' | 'corner' | 'tee' | 'cross';
+
+// How a road cell is drawn: a piece, turned clockwise by a number of quarter turns.
+// Unturned, an end opens north, a straight runs north-south, a corner joins
+// north and east and a tee joins east, south and west.
+export interface RoadTile {
+  piece: RoadPiece;
+  quarterTurns: number;
+}
+
+// Neighbour directions, in clockwise order
+const NEIGHBOURS = [
+  { column: 0, row: -1 }, // north
+  { column: 1, row: 0 }, // east
+  { column: 0, row: 1 }, // south
+  { column: -1, row: 0 }, // west
+];
+
+// Road tile for each set of connected neighbours, as a bitmask of north = 1,
+// east = 2, south = 4 and west = 8
+const TILES: RoadTile[] = [
+  { piece: 'single', quarterTurns: 0 }, // none
+  { piece: 'end', quarterTurns: 0 }, // N
+  { piece: 'end', quarterTurns: 1 }, // E
+  { piece: 'corner', quarterTurns: 0 }, // N E
+  { piece: 'end', quarterTurns: 2 }, // S
+  { piece: 'straight', quarterTurns: 0 }, // N S
+  { piece: 'corner', quarterTurns: 1 }, // E S
+  { piece: 'tee', quarterTurns: 3 }, // N E S
+  { piece: 'end', quarterTurns: 3 }, // W
+  { piece: 'corner', quarterTurns: 3 }, // N W
+  { piece: 'straight', quarterTurns: 1 }, // E W
+  { piece: 'tee', quarterTurns: 2 }, // N E W
+  { piece: 'corner', quarterTurns: 2 }, // S W
+  { piece: 'tee', quarterTurns: 1 }, // N S W
+  { piece: 'tee', quarterTurns: 0 }, // E S W
+  { piece: 'cross', quarterTurns: 0 }, // all four
+];
+
+/**
+ * Lookup key of a road cell
+ */
+export const roadKey = (cell: RoadCell) => `${cell.column},${cell.row}`;
+
+/**
+ * The grid cell a world position falls in
+ */
+export const toRoadCell = (world: { x: number; y: number }): RoadCell => ({
+  column: Math.floor(world.x / GRID_CELL_SIZE),
+  row: Math.floor(world.y / GRID_CELL_SIZE),
+});
+
+/**
+ * Pick the road piece for a cell from which of its neighbours are roads.
+ * `roadKeys` holds the keys of every road cell.
+ */
+export const getRoadTile = (cell: RoadCell, roadKeys: Set<string>): RoadTile => {
+  const mask = NEIGHBOURS.reduce(
+    (bits, offset, i) =>
+      roadKeys.has(roadKey({ column: cell.column + offset.column, row: cell.row + offset.row })) ? bits | (1 << i) : bits,
+    0
+  );
+  return TILES[mask];
+};
+
+/**
+ * Cells from one cell to another, each next to the one before, so a fast
+ * drag still lays an unbroken road. Includes `to` but not `from`.
+ */
+export const cellsBetween = (from: RoadCell, to: RoadCell): RoadCell[] => {
+  const cells: RoadCell[] = [];
+  const current = { ...from };
+  const columns = Math.abs(to.column - from.column);
+  const rows = Math.abs(to.row - from.row);
+
+  // Step along whichever axis is further behind the straight line
+  while (current.column !== to.column || current.row !== to.row) {
+    const columnProgress = columns ? Math.abs(current.column - from.column) / columns : 1;
+    const rowProgress = rows ? Math.abs(current.row - from.row) / rows : 1;
+    if (columnProgress <= rowProgress && current.column !== to.column) {
+      current.column += Math.sign(to.column - from.column);
+    } else {
+      current.row += Math.sign(to.row - from.row);
+    }
+    cells.push({ ...current });
+  }
+  return cells;
+};
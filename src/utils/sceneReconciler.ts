@@ -0,0 +1,120 @@
+import * as PIXI from 'pixi.js';
+
+import type { Layer } from '../types/city';
+import { applyLayerToSprite, loadTexture } from './pixiScene';
+
+// A sprite on the canvas and the layer it was last updated from
+export interface SceneEntry {
+  sprite: PIXI.Sprite;
+  layer: Layer;
+}
+
+interface ReconcileOptions {
+  container: PIXI.Container;
+  entries: Map<string, SceneEntry>;
+  layers: Layer[];
+  // Called once for every new sprite to wire up its interaction
+  setupSprite: (sprite: PIXI.Sprite, layerId: string) => void;
+  // The sprite being dragged keeps its live position
+  draggingId?: string | null;
+  // Returns false once a newer pass has started, so this one can stop
+  isCurrent?: () => boolean;
+}
+
+// Smallest area (in world pixels) that picks up a press on an item, so small
+// sprites are still easy to hit with a finger
+const MIN_HIT_SIZE = 96;
+
+// Locked layers can't be dragged but still take a press and hold for their menu.
+// Items smaller than a fingertip get an invisible hit area around them.
+const applyInteractivity = (sprite: PIXI.Sprite, layer: Layer) => {
+  sprite.eventMode = 'static';
+  sprite.cursor = layer.locked ? 'default' : 'pointer';
+
+  // In the sprite's own coordinates, centred on the texture
+  const { width, height } = sprite.texture;
+  const minSize = MIN_HIT_SIZE / (layer.scale || 1);
+  const hitWidth = Math.max(width, minSize);
+  const hitHeight = Math.max(height, minSize);
+  sprite.hitArea = new PIXI.Rectangle((width - hitWidth) / 2, (height - hitHeight) / 2, hitWidth, hitHeight);
+};
+
+// Copy a layer onto its sprite, leaving a dragged sprite where the pointer put it
+const updateSprite = (sprite: PIXI.Sprite, layer: Layer, isDragging: boolean) => {
+  const { x, y } = sprite.position;
+  applyLayerToSprite(sprite, layer);
+  applyInteractivity(sprite, layer);
+  if (isDragging) sprite.position.set(x, y);
+};
+
+/**
+ * Bring the sprites in `entries` in line with `layers`, creating, updating and
+ * destroying only what changed. Resolves to false if the pass was abandoned.
+ */
+export const reconcileLayers = async ({
+  container,
+  entries,
+  layers,
+  setupSprite,
+  draggingId = null,
+  isCurrent = () => true,
+}: ReconcileOptions): Promise<boolean> => {
+  const nextIds = new Set(layers.map(layer => layer.id));
+
+  // Destroy sprites whose layers are gone
+  entries.forEach((entry, id) => {
+    if (nextIds.has(id)) return;
+    entry.sprite.destroy({ children: true });
+    entries.delete(id);
+  });
+
+  // Preload every texture that isn't on a sprite yet, in parallel
+  const missingPaths = new Set(
+    layers
+      .filter(layer => entries.get(layer.id)?.layer.texturePath !== layer.texturePath)
+      .map(layer => layer.texturePath)
+  );
+  const loaded = await Promise.all(
+    [...missingPaths].map(async path => {
+      try {
+        return [path, await loadTexture(path)] as const;
+      } catch (error) {
+        console.error(`Failed to load texture ${path}:`, error);
+        return [path, null] as const;
+      }
+    })
+  );
+  if (!isCurrent()) return false;
+
+  const textures = new Map(loaded);
+
+  layers.forEach(layer => {
+    const entry = entries.get(layer.id);
+    const isDragging = layer.id === draggingId;
+
+    if (!entry) {
+      const texture = textures.get(layer.texturePath);
+      if (!texture) return;
+
+      const sprite = new PIXI.Sprite(texture);
+      updateSprite(sprite, layer, false);
+      setupSprite(sprite, layer.id);
+      container.addChild(sprite);
+      entries.set(layer.id, { sprite, layer });
+      return;
+    }
+
+    // Layers are immutable, so an unchanged reference means nothing to do
+    if (entry.layer === layer) return;
+
+    if (entry.layer.texturePath !== layer.texturePath) {
+      const texture = textures.get(layer.texturePath);
+      if (texture) entry.sprite.texture = texture;
+    }
+
+    updateSprite(entry.sprite, layer, isDragging);
+    entry.layer = layer;
+  });
+
+  return true;
+};
@@ -0,0 +1,55 @@
+import * as PIXI from 'pixi.js';
+
+const SPARKLE_DURATION = 700; // ms
+const SPARKLE_COUNT = 10;
+const SPARKLE_COLORS = [0xffd700, 0xffffff, 0xfff59d];
+
+// A small four-pointed star
+const createStar = (size: number, color: number) =>
+  new PIXI.Graphics()
+    .poly([0, -size, size / 4, -size / 4, size, 0, size / 4, size / 4, 0, size, -size / 4, size / 4, -size, 0, -size / 4, -size / 4])
+    .fill(color);
+
+/**
+ * Burst of stars flying out from a point, e.g. when a building is upgraded.
+ * Cleans itself up when done.
+ */
+export const playSparkle = (
+  parent: PIXI.Container,
+  ticker: PIXI.Ticker,
+  center: { x: number; y: number },
+  radius: number
+) => {
+  const burst = new PIXI.Container();
+  burst.position.set(center.x, center.y);
+  parent.addChild(burst);
+
+  const stars = Array.from({ length: SPARKLE_COUNT }, (_, i) => {
+    const star = createStar(8 + (i % 3) * 4, SPARKLE_COLORS[i % SPARKLE_COLORS.length]);
+    burst.addChild(star);
+    // Spread evenly around the circle, with a little wobble
+    return { star, angle: (i / SPARKLE_COUNT) * Math.PI * 2 + Math.random() * 0.4 };
+  });
+
+  let elapsed = 0;
+  const update = (time: PIXI.Ticker) => {
+    elapsed += time.deltaMS;
+    const progress = Math.min(elapsed / SPARKLE_DURATION, 1);
+    // Ease out so the stars pop quickly, then drift
+    const distance = radius * (0.4 + 0.8 * (1 - (1 - progress) ** 3));
+
+    stars.forEach(({ star, angle }) => {
+      star.position.set(Math.cos(angle) * distance, Math.sin(angle) * distance);
+      star.rotation = progress * Math.PI;
+      star.scale.set(1 - progress * 0.5);
+    });
+    burst.alpha = 1 - progress;
+
+    if (progress >= 1) {
+      ticker.remove(update);
+      burst.destroy({ children: true });
+    }
+  };
+
+  ticker.add(update);
+};
@@ -0,0 +1,33 @@
+import {
+  type IconDefinition,
+  faChair,
+  faFaceFrown,
+  faFaceMeh,
+  faFaceSmile,
+  faHospital,
+  faStore,
+  faTree,
+} from '@fortawesome/free-solid-svg-icons';
+
+import type { HappinessFactorKind, Mood } from './cityStats';
+
+// Faces for how happy the city or a house is, and their colours
+export const MOOD_ICONS: Record<Mood, IconDefinition> = {
+  happy: faFaceSmile,
+  okay: faFaceMeh,
+  sad: faFaceFrown,
+};
+
+export const MOOD_COLORS: Record<Mood, string> = {
+  happy: 'text-green-500',
+  okay: 'text-amber-500',
+  sad: 'text-red-500',
+};
+
+// What each happiness factor looks like
+export const HAPPINESS_FACTOR_ICONS: Record<HappinessFactorKind, IconDefinition> = {
+  trees: faTree,
+  bench: faChair,
+  shop: faStore,
+  hospital: faHospital,
+};
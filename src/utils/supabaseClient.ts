@@ -0,0 +1,40 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// The values from .env.example are placeholders, so only accept a real URL
+export const isSupabaseConfigured = Boolean(
+  SUPABASE_URL && SUPABASE_ANON_KEY && /^https?:\/\//.test(SUPABASE_URL)
+);
+
+// Shared Supabase client, or null when working offline
+export const supabase: SupabaseClient | null = isSupabaseConfigured
+  ? createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!)
+  : null;
+
+// Anonymous sign-in in progress, so calls made meanwhile share one user
+let anonymousSignIn: Promise<string> | null = null;
+
+/**
+ * Id of the signed-in user, who owns everything saved. Without a sign-in an
+ * anonymous user is started, so each browser keeps its own cities until an
+ * account is linked. Needs anonymous sign-ins enabled in the Supabase project.
+ */
+export const getOwnerId = async (client: SupabaseClient): Promise<string> => {
+  const { data, error } = await client.auth.getSession();
+  if (error) throw error;
+  if (data.session) return data.session.user.id;
+
+  anonymousSignIn ??= client.auth
+    .signInAnonymously()
+    .then(({ data: signIn, error: signInError }) => {
+      if (signInError) throw signInError;
+      if (!signIn.user) throw new Error('Supabase did not start a session');
+      return signIn.user.id;
+    })
+    .finally(() => {
+      anonymousSignIn = null;
+    });
+  return anonymousSignIn;
+};
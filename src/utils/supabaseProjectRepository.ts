@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { CityProject } from '../types/project';
+import type { ProjectRepository } from './projectRepository';
+import { parseCityDocument, toCityDocument } from './cityDocument';
+import { getOwnerId } from './supabaseClient';
+
+const PROJECTS_TABLE = 'projects';
+const PROJECT_COLUMNS = 'id, title, layers, map_points, storage_bar, roads, terrain, map_template, budget, updated_at';
+
+// Shape of a row in the `projects` table
+interface ProjectRow {
+  id: string;
+  // The user who saved it; row-level security only lets them reach it
+  user_id?: string;
+  title: string;
+  layers: unknown;
+  map_points: unknown;
+  storage_bar: unknown;
+  roads: unknown;
+  terrain: unknown;
+  map_template: string | null;
+  budget: number | null;
+  updated_at: string;
+}
+
+const fromRow = (row: ProjectRow): CityProject => ({
+  id: row.id,
+  name: row.title,
+  ...parseCityDocument({
+    layers: row.layers,
+    mapPoints: row.map_points,
+    storageItems: row.storage_bar,
+    roads: row.roads,
+    terrain: row.terrain,
+    mapTemplateId: row.map_template,
+    budget: row.budget,
+  }),
+  updatedAt: new Date(row.updated_at).getTime(),
+});
+
+const toRow = (project: CityProject, userId: string): ProjectRow => {
+  const document = toCityDocument(project);
+  return {
+    id: project.id,
+    user_id: userId,
+    title: project.name,
+    layers: document.layers,
+    map_points: document.mapPoints,
+    storage_bar: document.storageItems,
+    roads: document.roads,
+    terrain: document.terrain,
+    map_template: document.mapTemplateId,
+    budget: document.budget,
+    updated_at: new Date(project.updatedAt).toISOString(),
+  };
+};
+
+/**
+ * Project repository backed by the Supabase `projects` table
+ */
+export const createSupabaseProjectRepository = (client: SupabaseClient): ProjectRepository => ({
+  async list() {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(PROJECTS_TABLE)
+      .select(PROJECT_COLUMNS)
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+    if (error) throw error;
+    return (data as ProjectRow[]).map(fromRow);
+  },
+
+  async get(id) {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(PROJECTS_TABLE)
+      .select(PROJECT_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(data as ProjectRow) : null;
+  },
+
+  async save(project) {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(PROJECTS_TABLE)
+      .upsert(toRow(project, userId))
+      .select(PROJECT_COLUMNS)
+      .single();
+    if (error) throw error;
+    return fromRow(data as ProjectRow);
+  },
+
+  async delete(id) {
+    const userId = await getOwnerId(client);
+    const { error } = await client.from(PROJECTS_TABLE).delete().eq('id', id).eq('user_id', userId);
+    if (error) throw error;
+  },
+
+  async rename(id, name) {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(PROJECTS_TABLE)
+      .update({ title: name, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(PROJECT_COLUMNS)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromRow(data as ProjectRow) : null;
+  },
+});
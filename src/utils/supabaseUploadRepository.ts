@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { UploadMimeType, UploadedAsset } from '../types/upload';
+import type { UploadRepository } from './uploadRepository';
+import { getOwnerId } from './supabaseClient';
+
+const UPLOADS_TABLE = 'uploads';
+const UPLOADS_BUCKET = 'uploads';
+const UPLOAD_COLUMNS = 'id, name, path, mime_type, width, height, created_at';
+
+// File extension each format is stored under in the bucket
+const EXTENSIONS: Record<UploadMimeType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+};
+
+// Shape of a row in the `uploads` table
+interface UploadRow {
+  id: string;
+  // The user who uploaded it; row-level security only lets them reach it
+  user_id?: string;
+  name: string;
+  // Where the image is in the uploads bucket, inside its owner's folder
+  path: string;
+  mime_type: UploadMimeType;
+  width: number;
+  height: number;
+  created_at: string;
+}
+
+const fromRow = (row: UploadRow): UploadedAsset => ({
+  id: row.id,
+  name: row.name,
+  mimeType: row.mime_type,
+  width: row.width,
+  height: row.height,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+const toRow = (upload: UploadedAsset, userId: string): UploadRow => ({
+  id: upload.id,
+  user_id: userId,
+  name: upload.name,
+  // Storage policies only let users into the folder named after them
+  path: `${userId}/${upload.id}.${EXTENSIONS[upload.mimeType]}`,
+  mime_type: upload.mimeType,
+  width: upload.width,
+  height: upload.height,
+  created_at: new Date(upload.createdAt).toISOString(),
+});
+
+/**
+ * Upload repository backed by the Supabase `uploads` table, with images in the
+ * `uploads` Storage bucket
+ */
+export const createSupabaseUploadRepository = (client: SupabaseClient): UploadRepository => ({
+  async list() {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(UPLOADS_TABLE)
+      .select(UPLOAD_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data as UploadRow[]).map(fromRow);
+  },
+
+  async getImage(id) {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(UPLOADS_TABLE)
+      .select('path')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { data: image, error: downloadError } = await client.storage
+      .from(UPLOADS_BUCKET)
+      .download((data as Pick<UploadRow, 'path'>).path);
+    if (downloadError) throw downloadError;
+    return image;
+  },
+
+  async save(upload, image) {
+    const row = toRow(upload, await getOwnerId(client));
+    const { error: uploadError } = await client.storage
+      .from(UPLOADS_BUCKET)
+      .upload(row.path, image, { contentType: upload.mimeType, upsert: true });
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await client
+      .from(UPLOADS_TABLE)
+      .upsert(row)
+      .select(UPLOAD_COLUMNS)
+      .single();
+    if (error) throw error;
+    return fromRow(data as UploadRow);
+  },
+
+  async delete(id) {
+    const userId = await getOwnerId(client);
+    const { data, error } = await client
+      .from(UPLOADS_TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('path');
+    if (error) throw error;
+
+    const paths = (data as Pick<UploadRow, 'path'>[]).map(row => row.path);
+    if (paths.length > 0) {
+      const { error: removeError } = await client.storage.from(UPLOADS_BUCKET).remove(paths);
+      if (removeError) throw removeError;
+    }
+  },
+});
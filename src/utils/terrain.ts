@@ -0,0 +1,195 @@
+import type { TerrainMap } from '../types/city';
+
+// Terrain is painted in square cells this many world pixels across
+export const TERRAIN_CELL_SIZE = 24;
+
+// Ground kids can paint, in the order the brushes are offered
+export const TERRAIN_TYPES = ['grass', 'water', 'sand', 'dirt', 'flowers'] as const;
+export type TerrainType = (typeof TERRAIN_TYPES)[number];
+
+export const TERRAIN_LABELS: Record<TerrainType, string> = {
+  grass: 'Grass',
+  water: 'Water',
+  sand: 'Sand',
+  dirt: 'Dirt',
+  flowers: 'Flowers',
+};
+
+export const TERRAIN_COLORS: Record<TerrainType, number> = {
+  grass: 0x7cc95a,
+  water: 0x4fa3e0,
+  sand: 0xf2d98a,
+  dirt: 0xa9784f,
+  flowers: 0x8fd46e,
+};
+
+// Letter each terrain is stored as. Unpainted cells show the map underneath.
+const TERRAIN_CODES: Record<TerrainType, string> = {
+  grass: 'g',
+  water: 'w',
+  sand: 's',
+  dirt: 'd',
+  flowers: 'f',
+};
+export const UNPAINTED = '.';
+
+// Brush radius in cells for each brush size
+export const BRUSH_RADII = { small: 2, medium: 4, large: 7 } as const;
+export type BrushSize = keyof typeof BRUSH_RADII;
+
+// What pressing on the map does with terrain painting on: paint or erase with a
+// round brush, or fill the patch of matching ground under the pointer
+export interface TerrainTool {
+  mode: 'brush' | 'fill' | 'erase';
+  terrain: TerrainType;
+  size: BrushSize;
+}
+
+// Terrain as the builder works on it: one letter per cell, row by row
+export interface TerrainGrid {
+  columns: number;
+  rows: number;
+  cells: string;
+}
+
+const RUN_PATTERN = /(\d+)([a-z.])/g;
+
+/**
+ * Unpainted terrain covering a world of the given size
+ */
+export const createTerrainGrid = (worldWidth: number, worldHeight: number): TerrainGrid => {
+  const columns = Math.ceil(worldWidth / TERRAIN_CELL_SIZE);
+  const rows = Math.ceil(worldHeight / TERRAIN_CELL_SIZE);
+  return { columns, rows, cells: UNPAINTED.repeat(columns * rows) };
+};
+
+/**
+ * Letter a terrain is stored as; null is unpainted ground
+ */
+export const getTerrainCode = (terrain: TerrainType | null) => (terrain ? TERRAIN_CODES[terrain] : UNPAINTED);
+
+/**
+ * Terrain stored as a letter, or null for unpainted ground
+ */
+export const getTerrainType = (code: string): TerrainType | null =>
+  TERRAIN_TYPES.find(terrain => TERRAIN_CODES[terrain] === code) ?? null;
+
+/**
+ * Whether any cell has been painted
+ */
+export const isTerrainPainted = (grid: TerrainGrid | null) =>
+  grid !== null && [...grid.cells].some(code => code !== UNPAINTED);
+
+/**
+ * Index of the cell under a world position, or -1 off the grid
+ */
+export const getTerrainCellIndex = (grid: TerrainGrid, world: { x: number; y: number }) => {
+  const column = Math.floor(world.x / TERRAIN_CELL_SIZE);
+  const row = Math.floor(world.y / TERRAIN_CELL_SIZE);
+  if (column < 0 || row < 0 || column >= grid.columns || row >= grid.rows) return -1;
+  return row * grid.columns + column;
+};
+
+/**
+ * Paint a round dab of terrain into a grid's cells, in place
+ */
+export const stampBrush = (
+  cells: string[],
+  grid: TerrainGrid,
+  center: { x: number; y: number },
+  radius: number,
+  code: string
+) => {
+  const column = center.x / TERRAIN_CELL_SIZE;
+  const row = center.y / TERRAIN_CELL_SIZE;
+
+  for (let y = Math.max(0, Math.floor(row - radius)); y <= Math.min(grid.rows - 1, Math.ceil(row + radius)); y++) {
+    for (let x = Math.max(0, Math.floor(column - radius)); x <= Math.min(grid.columns - 1, Math.ceil(column + radius)); x++) {
+      // Measure from the middle of each cell
+      if (Math.hypot(x + 0.5 - column, y + 0.5 - row) <= radius) cells[y * grid.columns + x] = code;
+    }
+  }
+};
+
+/**
+ * Paint dabs all the way between two world positions, so a fast drag leaves
+ * no gaps
+ */
+export const stampLine = (
+  cells: string[],
+  grid: TerrainGrid,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  radius: number,
+  code: string
+) => {
+  const spacing = Math.max(1, radius / 2) * TERRAIN_CELL_SIZE;
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    stampBrush(cells, grid, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, code);
+  }
+};
+
+/**
+ * Fill the patch of same-coloured cells touching a cell with another terrain
+ */
+export const floodFill = (grid: TerrainGrid, start: number, code: string): TerrainGrid => {
+  const target = grid.cells[start];
+  if (target === undefined || target === code) return grid;
+
+  const cells = grid.cells.split('');
+  const stack = [start];
+  cells[start] = code;
+  while (stack.length > 0) {
+    const index = stack.pop() as number;
+    const column = index % grid.columns;
+    const neighbours = [
+      column > 0 ? index - 1 : -1,
+      column < grid.columns - 1 ? index + 1 : -1,
+      index - grid.columns,
+      index + grid.columns,
+    ];
+    neighbours.forEach(next => {
+      if (next >= 0 && next < cells.length && cells[next] === target) {
+        cells[next] = code;
+        stack.push(next);
+      }
+    });
+  }
+  return { ...grid, cells: cells.join('') };
+};
+
+/**
+ * Run-length encode a grid for saving, e.g. "120.8g" for 120 unpainted cells
+ * followed by 8 of grass
+ */
+export const encodeTerrain = (grid: TerrainGrid): TerrainMap => {
+  let runs = '';
+  let start = 0;
+  for (let i = 1; i <= grid.cells.length; i++) {
+    if (i === grid.cells.length || grid.cells[i] !== grid.cells[start]) {
+      runs += `${i - start}${grid.cells[start]}`;
+      start = i;
+    }
+  }
+  return { columns: grid.columns, rows: grid.rows, runs };
+};
+
+/**
+ * Expand saved terrain, or null when its runs don't describe every cell of
+ * its grid with known terrain
+ */
+export const decodeTerrain = (map: TerrainMap): TerrainGrid | null => {
+  if (!/^(\d+[a-z.])*$/.test(map.runs)) return null;
+
+  const size = map.columns * map.rows;
+  let cells = '';
+  for (const [, count, code] of map.runs.matchAll(RUN_PATTERN)) {
+    if (code !== UNPAINTED && !getTerrainType(code)) return null;
+    // Never build more cells than the grid has
+    if (cells.length + Number(count) > size) return null;
+    cells += code.repeat(Number(count));
+  }
+  return cells.length === size ? { columns: map.columns, rows: map.rows, cells } : null;
+};
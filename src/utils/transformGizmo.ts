@@ -0,0 +1,244 @@
+import * as PIXI from 'pixi.js';
+
+import type { Layer } from '../types/city';
+
+// Handle sizes in screen pixels, big enough for a child's finger
+const HANDLE_RADIUS = 18;
+const ROTATE_HANDLE_DISTANCE = 48;
+const FLIP_BUTTON_SIZE = 40;
+const BOX_LINE_WIDTH = 2;
+
+const GIZMO_COLOR = 0x3b82f6;
+const HANDLE_FILL = 0xffffff;
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 5;
+const ROTATION_SNAP = Math.PI / 12; // 15°
+
+export interface TransformGizmo {
+  container: PIXI.Container;
+  // Follow the sprite after it was moved or changed elsewhere
+  sync: () => void;
+  destroy: () => void;
+}
+
+interface TransformGizmoOptions {
+  sprite: PIXI.Sprite;
+  layer: Layer;
+  // Receives pointer moves anywhere on the canvas while a handle is held
+  stage: PIXI.Container;
+  toWorld: (global: PIXI.PointData) => { x: number; y: number };
+  // Current stage scale, so handles keep the same size on screen
+  getScreenScale: () => number;
+  // Called when a gesture ends, with the changes to commit (null if nothing changed)
+  onGestureEnd: (updates: Partial<Layer> | null) => void;
+}
+
+// An in-progress handle gesture
+interface Gesture {
+  kind: 'scale' | 'rotate';
+  startDistance: number;
+  startAngle: number;
+  scale: number;
+  rotation: number;
+}
+
+const snapRotation = (rotation: number) => {
+  const snapped = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+  // Keep the stored value tidy, e.g. 2π becomes 0
+  const fullTurn = Math.PI * 2;
+  return Math.round((((snapped % fullTurn) + fullTurn) % fullTurn) * 1e6) / 1e6;
+};
+
+/**
+ * Selection overlay with corner handles for uniform scaling, a rotation handle
+ * with 15° snapping and flip buttons. Locked layers only get the outline.
+ */
+export const createTransformGizmo = ({
+  sprite,
+  layer,
+  stage,
+  toWorld,
+  getScreenScale,
+  onGestureEnd,
+}: TransformGizmoOptions): TransformGizmo => {
+  const container = new PIXI.Container();
+  const box = new PIXI.Graphics();
+  const stem = new PIXI.Graphics();
+  container.addChild(box, stem);
+
+  const center = () => ({ x: sprite.x, y: sprite.y });
+
+  let gesture: Gesture | null = null;
+
+  // Live preview of a gesture, straight on the sprite
+  const previewScale = (scale: number) => {
+    sprite.scale.set(scale * Math.sign(sprite.scale.x || 1), scale * Math.sign(sprite.scale.y || 1));
+    sync();
+  };
+
+  const handleMove = (event: PIXI.FederatedPointerEvent) => {
+    if (!gesture) return;
+
+    const point = toWorld(event.global);
+    const { x: cx, y: cy } = center();
+    const dx = point.x - cx;
+    const dy = point.y - cy;
+
+    if (gesture.kind === 'scale') {
+      const ratio = Math.hypot(dx, dy) / (gesture.startDistance || 1);
+      gesture.scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, layer.scale * ratio));
+      previewScale(gesture.scale);
+    } else {
+      gesture.rotation = snapRotation((layer.rotation || 0) + Math.atan2(dy, dx) - gesture.startAngle);
+      sprite.rotation = gesture.rotation;
+      sync();
+    }
+  };
+
+  const handleUp = () => {
+    if (!gesture) return;
+
+    const finished = gesture;
+    gesture = null;
+    stage.off('globalpointermove', handleMove);
+    stage.off('pointerup', handleUp);
+    stage.off('pointerupoutside', handleUp);
+
+    if (finished.kind === 'scale' && finished.scale !== layer.scale) {
+      // Scaling keeps the centre in place, so the top-left corner moves
+      const { x: cx, y: cy } = center();
+      onGestureEnd({
+        scale: finished.scale,
+        position: {
+          x: cx - sprite.pivot.x * finished.scale,
+          y: cy - sprite.pivot.y * finished.scale,
+        },
+      });
+    } else if (finished.kind === 'rotate' && finished.rotation !== (layer.rotation || 0)) {
+      onGestureEnd({ rotation: finished.rotation });
+    } else {
+      onGestureEnd(null);
+    }
+  };
+
+  // Begin a scale or rotate gesture from a handle
+  const startGesture = (kind: Gesture['kind'], event: PIXI.FederatedPointerEvent) => {
+    event.stopPropagation();
+
+    const point = toWorld(event.global);
+    const { x: cx, y: cy } = center();
+    gesture = {
+      kind,
+      startDistance: Math.hypot(point.x - cx, point.y - cy),
+      startAngle: Math.atan2(point.y - cy, point.x - cx),
+      scale: layer.scale,
+      rotation: layer.rotation || 0,
+    };
+
+    stage.on('globalpointermove', handleMove);
+    stage.on('pointerup', handleUp);
+    stage.on('pointerupoutside', handleUp);
+  };
+
+  const createHandle = (cursor: string) => {
+    const handle = new PIXI.Graphics();
+    handle.eventMode = 'static';
+    handle.cursor = cursor;
+    container.addChild(handle);
+    return handle;
+  };
+
+  const createFlipButton = (label: string, flip: 'flipX' | 'flipY') => {
+    const button = new PIXI.Container();
+    const background = new PIXI.Graphics();
+    const text = new PIXI.Text({ text: label, style: { fontSize: 24, fill: GIZMO_COLOR, fontWeight: 'bold' } });
+    text.anchor.set(0.5);
+    button.addChild(background, text);
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+    button.on('pointerdown', (event) => {
+      event.stopPropagation();
+      onGestureEnd({ [flip]: !layer[flip] });
+    });
+    container.addChild(button);
+    return { button, background, text };
+  };
+
+  const cornerHandles = layer.locked
+    ? []
+    : [
+        { handle: createHandle('nwse-resize'), sx: -1, sy: -1 },
+        { handle: createHandle('nesw-resize'), sx: 1, sy: -1 },
+        { handle: createHandle('nwse-resize'), sx: 1, sy: 1 },
+        { handle: createHandle('nesw-resize'), sx: -1, sy: 1 },
+      ];
+  const rotateHandle = layer.locked ? null : createHandle('grab');
+  const flipButtons = layer.locked
+    ? []
+    : [
+        { ...createFlipButton('⇆', 'flipX'), offset: -1 },
+        { ...createFlipButton('⇅', 'flipY'), offset: 1 },
+      ];
+
+  cornerHandles.forEach(({ handle }) => handle.on('pointerdown', (event) => startGesture('scale', event)));
+  rotateHandle?.on('pointerdown', (event) => startGesture('rotate', event));
+
+  // Redraw around the sprite's current transform
+  function sync() {
+    const screenScale = getScreenScale() || 1;
+    const unit = 1 / screenScale;
+    const halfWidth = (sprite.texture.width * Math.abs(sprite.scale.x)) / 2;
+    const halfHeight = (sprite.texture.height * Math.abs(sprite.scale.y)) / 2;
+
+    container.position.set(sprite.x, sprite.y);
+    container.rotation = sprite.rotation;
+    container.visible = sprite.visible;
+
+    box.clear()
+      .rect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2)
+      .stroke({ width: BOX_LINE_WIDTH * unit, color: GIZMO_COLOR });
+
+    cornerHandles.forEach(({ handle, sx, sy }) => {
+      handle.clear()
+        .circle(0, 0, HANDLE_RADIUS * unit)
+        .fill(HANDLE_FILL)
+        .stroke({ width: 3 * unit, color: GIZMO_COLOR });
+      handle.position.set(sx * halfWidth, sy * halfHeight);
+    });
+
+    stem.clear();
+    if (rotateHandle) {
+      const top = -halfHeight - ROTATE_HANDLE_DISTANCE * unit;
+      stem.moveTo(0, -halfHeight).lineTo(0, top).stroke({ width: BOX_LINE_WIDTH * unit, color: GIZMO_COLOR });
+      rotateHandle.clear()
+        .circle(0, 0, HANDLE_RADIUS * unit)
+        .fill(GIZMO_COLOR)
+        .stroke({ width: 3 * unit, color: HANDLE_FILL });
+      rotateHandle.position.set(0, top);
+    }
+
+    flipButtons.forEach(({ button, background, text, offset }) => {
+      const size = FLIP_BUTTON_SIZE * unit;
+      background.clear()
+        .roundRect(-size / 2, -size / 2, size, size, size / 4)
+        .fill(HANDLE_FILL)
+        .stroke({ width: 2 * unit, color: GIZMO_COLOR });
+      text.scale.set(unit);
+      button.position.set(offset * size * 0.75, halfHeight + size);
+    });
+  }
+
+  sync();
+
+  return {
+    container,
+    sync,
+    destroy: () => {
+      stage.off('globalpointermove', handleMove);
+      stage.off('pointerup', handleUp);
+      stage.off('pointerupoutside', handleUp);
+      container.destroy({ children: true });
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import type { AssetDefinition } from '../types/asset';
+import type { UploadedAsset } from '../types/upload';
+import type { PreparedUpload } from './uploadSanitizer';
+import { GRID_CELL_SIZE } from './grid';
+import { createId } from './ids';
+import { getUploadRepository } from './uploadRepository';
+
+// Layers made from an upload point their texturePath at it with this prefix,
+// so the path stays valid after a reload
+export const UPLOAD_TEXTURE_PREFIX = 'upload:';
+
+// Drawings start with their longest side this many pixels on the map
+const DRAWING_DISPLAY_SIZE = 128;
+
+/**
+ * Texture path of an uploaded drawing
+ */
+export const toUploadTexturePath = (uploadId: string) => `${UPLOAD_TEXTURE_PREFIX}${uploadId}`;
+
+/**
+ * The upload a texture path refers to, or null for bundled textures
+ */
+export const getUploadId = (texturePath: string) =>
+  texturePath.startsWith(UPLOAD_TEXTURE_PREFIX) ? texturePath.slice(UPLOAD_TEXTURE_PREFIX.length) : null;
+
+/**
+ * An uploaded drawing as a catalogue asset: one free version, in "My Drawings"
+ */
+export const toUploadAsset = (upload: UploadedAsset): AssetDefinition => {
+  const defaultScale = Math.min(1, DRAWING_DISPLAY_SIZE / Math.max(upload.width, upload.height));
+  const cells = (size: number) => Math.max(1, Math.round((size * defaultScale) / GRID_CELL_SIZE));
+
+  return {
+    id: upload.id,
+    name: upload.name,
+    category: 'drawings',
+    icon: 'image',
+    versions: [{ version: 1, texturePath: toUploadTexturePath(upload.id), cost: { coins: 0, materials: {} } }],
+    anchor: { x: 0.5, y: 0.5 },
+    defaultScale,
+    footprint: { width: cells(upload.width), height: cells(upload.height) },
+  };
+};
+
+/**
+ * Store a checked upload and return its details
+ */
+export const storeUpload = (prepared: PreparedUpload): Promise<UploadedAsset> =>
+  getUploadRepository().save(
+    {
+      id: createId('upload'),
+      name: prepared.name,
+      mimeType: prepared.mimeType,
+      width: prepared.width,
+      height: prepared.height,
+      createdAt: Date.now(),
+    },
+    prepared.blob
+  );
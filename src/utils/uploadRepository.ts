@@ -0,0 +1,93 @@
+import type { UploadedAsset } from '../types/upload';
+import { deleteUpload, getUpload, listUploads, saveUpload } from './projectStorage';
+import { isSupabaseConfigured, supabase } from './supabaseClient';
+import { createSupabaseUploadRepository } from './supabaseUploadRepository';
+
+/**
+ * Storage for uploaded drawings and their images, independent of where they actually live
+ */
+export interface UploadRepository {
+  list(): Promise<UploadedAsset[]>;
+  // The stored image of an upload, or null if it doesn't exist
+  getImage(id: string): Promise<Blob | null>;
+  save(upload: UploadedAsset, image: Blob): Promise<UploadedAsset>;
+  delete(id: string): Promise<void>;
+}
+
+// Copy an upload's details so callers never share objects with the repository
+const cloneUpload = (upload: UploadedAsset): UploadedAsset => ({
+  id: upload.id,
+  name: upload.name,
+  mimeType: upload.mimeType,
+  width: upload.width,
+  height: upload.height,
+  createdAt: upload.createdAt,
+});
+
+/**
+ * Upload repository that keeps everything in memory, for tests and offline development
+ */
+export const createMemoryUploadRepository = (): UploadRepository => {
+  const uploads = new Map<string, { upload: UploadedAsset; image: Blob }>();
+
+  return {
+    async list() {
+      return [...uploads.values()]
+        .map(({ upload }) => cloneUpload(upload))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async getImage(id) {
+      return uploads.get(id)?.image ?? null;
+    },
+
+    async save(upload, image) {
+      uploads.set(upload.id, { upload: cloneUpload(upload), image });
+      return cloneUpload(upload);
+    },
+
+    async delete(id) {
+      uploads.delete(id);
+    },
+  };
+};
+
+/**
+ * Upload repository backed by IndexedDB in this browser
+ */
+export const createLocalUploadRepository = (): UploadRepository => ({
+  async list() {
+    return (await listUploads()).map(cloneUpload);
+  },
+
+  async getImage(id) {
+    return (await getUpload(id))?.blob ?? null;
+  },
+
+  async save(upload, image) {
+    const stored = cloneUpload(upload);
+    await saveUpload({ ...stored, blob: image });
+    return stored;
+  },
+
+  delete: deleteUpload,
+});
+
+let repository: UploadRepository | null = null;
+
+/**
+ * Get the upload repository for this environment: Supabase Storage when it is
+ * configured, otherwise IndexedDB, falling back to memory where IndexedDB isn't available
+ */
+export const getUploadRepository = (): UploadRepository => {
+  if (!repository) {
+    if (isSupabaseConfigured && supabase) {
+      repository = createSupabaseUploadRepository(supabase);
+    } else if (typeof indexedDB !== 'undefined') {
+      repository = createLocalUploadRepository();
+    } else {
+      repository = createMemoryUploadRepository();
+    }
+  }
+  return repository;
+};
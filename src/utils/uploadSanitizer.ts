@@ -0,0 +1,185 @@
+import { UPLOAD_MIME_TYPES, type UploadMimeType } from '../types/upload';
+
+// Largest file accepted, before any processing
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// Images wider or taller than this are refused outright
+export const MAX_UPLOAD_DIMENSION = 4096;
+
+// Images are scaled down to fit this on their longest side
+export const MAX_TEXTURE_DIMENSION = 512;
+
+// Longest name kept for a drawing
+const MAX_NAME_LENGTH = 40;
+
+// SVG elements that can run code or pull in other documents
+const UNSAFE_SVG_ELEMENTS = ['script', 'foreignObject', 'iframe', 'object', 'embed', 'audio', 'video', 'handler', 'listener'];
+
+// Thrown when an uploaded file can't be used as a drawing
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// A file that passed the checks, ready to be stored
+export interface PreparedUpload {
+  name: string;
+  mimeType: UploadMimeType;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const isUploadMimeType = (value: string): value is UploadMimeType =>
+  UPLOAD_MIME_TYPES.includes(value as UploadMimeType);
+
+// Size that fits within the texture limit, keeping the aspect ratio
+const fitDimensions = (width: number, height: number) => {
+  const factor = Math.min(1, MAX_TEXTURE_DIMENSION / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * factor)),
+    height: Math.max(1, Math.round(height * factor)),
+  };
+};
+
+const checkDimensions = (width: number, height: number) => {
+  if (!(width > 0 && height > 0)) throw new UploadError('The picture has no size');
+  if (width > MAX_UPLOAD_DIMENSION || height > MAX_UPLOAD_DIMENSION) {
+    throw new UploadError(`The picture is too big: it can be at most ${MAX_UPLOAD_DIMENSION}×${MAX_UPLOAD_DIMENSION} pixels`);
+  }
+};
+
+// Whether a link stays inside the SVG (or is an embedded bitmap)
+const isSafeReference = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed.startsWith('#') || /^data:image\/(png|jpeg|gif|webp);/i.test(trimmed);
+};
+
+// Replace url(...) references that point outside the SVG, and drop @import rules
+const scrubCss = (css: string) =>
+  css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, target: string) => (isSafeReference(target) ? match : 'none'));
+
+/**
+ * Strip scripts, event handlers and external references from an SVG document
+ */
+export const sanitizeSvg = (root: Element) => {
+  UNSAFE_SVG_ELEMENTS.forEach(tag => {
+    root.querySelectorAll(tag).forEach(element => element.remove());
+  });
+
+  // Animations that could swap a link for an external one
+  root.querySelectorAll('set, animate').forEach(element => {
+    if (/href$/i.test(element.getAttribute('attributeName') ?? '')) element.remove();
+  });
+
+  root.querySelectorAll('style').forEach(style => {
+    style.textContent = scrubCss(style.textContent ?? '');
+  });
+
+  [root, ...root.querySelectorAll('*')].forEach(element => {
+    [...element.attributes].forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on')) {
+        element.removeAttribute(attribute.name);
+      } else if (name === 'href' || name.endsWith(':href')) {
+        if (!isSafeReference(attribute.value)) element.removeAttribute(attribute.name);
+      } else if (attribute.value.includes('url(')) {
+        element.setAttribute(attribute.name, scrubCss(attribute.value));
+      }
+    });
+  });
+};
+
+// Read a length attribute like "64" or "64px"; other units can't be sized reliably
+const readLength = (value: string | null) => {
+  if (!value) return null;
+  const match = /^\s*([\d.]+)\s*(px)?\s*$/.exec(value);
+  return match ? parseFloat(match[1]) : null;
+};
+
+const prepareSvg = async (file: File): Promise<Omit<PreparedUpload, 'name'>> => {
+  const svgDocument = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const root = svgDocument.documentElement;
+  if (root.nodeName !== 'svg' || svgDocument.querySelector('parsererror')) {
+    throw new UploadError("That SVG file couldn't be read");
+  }
+
+  sanitizeSvg(root);
+
+  // Size from width/height, falling back to the viewBox
+  const viewBox = (root.getAttribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite);
+  const width = readLength(root.getAttribute('width')) ?? (hasViewBox ? viewBox[2] : null);
+  const height = readLength(root.getAttribute('height')) ?? (hasViewBox ? viewBox[3] : null);
+  if (width === null || height === null) {
+    throw new UploadError('The SVG needs a width and height or a viewBox');
+  }
+  checkDimensions(width, height);
+
+  // Vectors are downscaled by shrinking their drawing size
+  const size = fitDimensions(width, height);
+  if (!hasViewBox) root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttribute('width', String(size.width));
+  root.setAttribute('height', String(size.height));
+
+  const markup = new XMLSerializer().serializeToString(root);
+  return { mimeType: 'image/svg+xml', blob: new Blob([markup], { type: 'image/svg+xml' }), ...size };
+};
+
+const prepareBitmap = async (file: File, mimeType: UploadMimeType): Promise<Omit<PreparedUpload, 'name'>> => {
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new UploadError("That picture couldn't be read");
+  });
+
+  try {
+    checkDimensions(bitmap.width, bitmap.height);
+
+    const size = fitDimensions(bitmap.width, bitmap.height);
+    if (size.width === bitmap.width && size.height === bitmap.height) {
+      return { mimeType, blob: file, ...size };
+    }
+
+    // Redraw oversized pictures at the texture limit
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new UploadError("That picture couldn't be resized");
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, size.width, size.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, 0.9));
+    if (!blob) throw new UploadError("That picture couldn't be resized");
+    return { mimeType, blob, ...size };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// A readable name for the drawing from its file name
+const toDrawingName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim().slice(0, MAX_NAME_LENGTH) || 'My drawing';
+
+/**
+ * Check an uploaded file and turn it into something safe to store: a PNG, JPEG
+ * or SVG within the size limits, downscaled to the texture limit, with SVGs
+ * stripped of scripts and external references
+ */
+export const prepareUpload = async (file: File): Promise<PreparedUpload> => {
+  if (!isUploadMimeType(file.type)) {
+    throw new UploadError('Only PNG, JPEG and SVG pictures can be used');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`The file is too big: it can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+
+  const prepared = file.type === 'image/svg+xml'
+    ? await prepareSvg(file)
+    : await prepareBitmap(file, file.type);
+
+  return { name: toDrawingName(file.name), ...prepared };
+};
@@ -0,0 +1,12 @@
+-- Saved cities. The city document is split over JSON columns so each part can be
+-- queried on its own; see src/utils/supabaseProjectRepository.ts.
+create table if not exists public.projects (
+  id text primary key,
+  title text not null,
+  layers jsonb not null default '[]'::jsonb,
+  map_points jsonb not null default '[]'::jsonb,
+  storage_bar jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists projects_updated_at_idx on public.projects (updated_at desc);
@@ -0,0 +1,3 @@
+-- The bundled map template a city was started from (see src/utils/mapTemplates.ts).
+-- Null for cities saved before templates existed.
+alter table public.projects add column if not exists map_template text;
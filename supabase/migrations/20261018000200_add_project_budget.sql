@@ -0,0 +1,3 @@
+-- Coins the player may spend in a city. Null means no limit, as for cities
+-- saved before budgets existed.
+alter table public.projects add column if not exists budget integer;
@@ -0,0 +1,15 @@
+-- Drawings players upload to use as items. The image lives in the `uploads`
+-- Storage bucket at `path`; see src/utils/supabaseUploadRepository.ts.
+create table if not exists public.uploads (
+  id text primary key,
+  name text not null,
+  path text not null,
+  mime_type text not null check (mime_type in ('image/png', 'image/jpeg', 'image/svg+xml')),
+  width integer not null check (width > 0),
+  height integer not null check (height > 0),
+  created_at timestamptz not null default now()
+);
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('uploads', 'uploads', false, 2097152, array['image/png', 'image/jpeg', 'image/svg+xml'])
+on conflict (id) do nothing;
@@ -0,0 +1,3 @@
+-- Grid cells with road on them, as [{ "column": 0, "row": 0 }, ...]. Cities
+-- saved before roads existed have none.
+alter table public.projects add column if not exists roads jsonb not null default '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- Painted ground as { "columns": 80, "rows": 45, "runs": "3600." }, the runs
+-- being the cells row by row, run-length encoded. Null when nothing is painted.
+alter table public.projects add column if not exists terrain jsonb;
@@ -0,0 +1,31 @@
+-- Every saved city and upload belongs to the user who saved it, and only that
+-- user can see or change it. Rows saved before owners existed have none, so
+-- nobody can reach them through the API any more.
+alter table public.projects
+  add column if not exists user_id uuid references auth.users (id) on delete cascade;
+alter table public.uploads
+  add column if not exists user_id uuid references auth.users (id) on delete cascade;
+
+create index if not exists projects_user_id_idx on public.projects (user_id);
+create index if not exists uploads_user_id_idx on public.uploads (user_id);
+
+alter table public.projects enable row level security;
+alter table public.uploads enable row level security;
+
+create policy "Owners can read their projects" on public.projects
+  for select using (auth.uid() = user_id);
+create policy "Owners can add projects" on public.projects
+  for insert with check (auth.uid() = user_id);
+create policy "Owners can change their projects" on public.projects
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Owners can delete their projects" on public.projects
+  for delete using (auth.uid() = user_id);
+
+create policy "Owners can read their uploads" on public.uploads
+  for select using (auth.uid() = user_id);
+create policy "Owners can add uploads" on public.uploads
+  for insert with check (auth.uid() = user_id);
+create policy "Owners can change their uploads" on public.uploads
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+create policy "Owners can delete their uploads" on public.uploads
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+-- Each user's images live in a folder named after their id in the `uploads`
+-- bucket, e.g. `<user id>/upload_abc.png`, and only they can reach it.
+-- Saving replaces an existing image, so owners may update as well as insert.
+create policy "Owners can add upload images" on storage.objects
+  for insert with check (bucket_id = 'uploads' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Owners can read upload images" on storage.objects
+  for select using (bucket_id = 'uploads' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Owners can replace upload images" on storage.objects
+  for update using (bucket_id = 'uploads' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'uploads' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Owners can delete upload images" on storage.objects
+  for delete using (bucket_id = 'uploads' and (storage.foldername(name))[1] = auth.uid()::text);